@@ -1,5 +1,7 @@
 import { convertToMarkdown, generateSummary } from "./summaryGenerator.ts";
 import { SupabaseService } from "../shared/SupabaseService.ts";
+import { ServiceCredentials, withServiceAuth } from "../shared/auth.ts";
+import { logger, withLogContext } from "../shared/logger.ts";
 
 // --- Service Initialization ---
 const supabaseService = new SupabaseService(
@@ -7,10 +9,35 @@ const supabaseService = new SupabaseService(
   Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
 );
 
+const JOB_NAME = "generate-card-summaries";
+
+/**
+ * SummaryRunReport is the structured outcome of a summary run. It is returned
+ * and recorded on the run in `job_runs`.
+ */
+interface SummaryRunReport {
+  jobName: string;
+  runId: string | null;
+  // Cards without a summary when the run started
+  cards: number;
+  generated: number;
+  failed: number;
+  // Cards whose bank wasn't found
+  skipped: number;
+  failures: { cardId: string; error: string }[];
+  totalMs: number;
+}
+
+// Only the cron job and service role callers may generate summaries.
+const credentials: ServiceCredentials = {
+  cronSecret: Deno.env.get("CRON_SECRET"),
+  serviceRoleKey: Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+};
+
 /**
  * Main handler for the generate card summaries function.
  */
-Deno.serve(async (req: Request): Promise<Response> => {
+const handler = async (req: Request): Promise<Response> => {
   // Only allow GET requests
   if (req.method !== "GET") {
     return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
@@ -23,39 +50,76 @@ Deno.serve(async (req: Request): Promise<Response> => {
     return new Response("Supabase not initialized", { status: 500 });
   }
 
+  const startedAt = performance.now();
+  const runId = await supabaseService.startJobRun(JOB_NAME, new Date(), null);
   const cardsWithoutSummary = await supabaseService.getCardsWithoutSummary();
+  const report: SummaryRunReport = {
+    jobName: JOB_NAME,
+    runId,
+    cards: cardsWithoutSummary.length,
+    generated: 0,
+    failed: 0,
+    skipped: 0,
+    failures: [],
+    totalMs: 0,
+  };
 
   for (const card of cardsWithoutSummary) {
-    console.log(`Generating summary for card: ${card.name} (ID: ${card.id})`);
-
-    let bank = await supabaseService.getBankById(card.bank_id);
-    if (!bank) {
-      bank = await supabaseService.getUserBankById(card.bank_id);
-    }
-
-    if (!bank) {
-      console.error(
-        `Bank not found for card ${card.id}. Skipping summary generation.`
-      );
-      continue;
-    }
-
-    // Generate the summary for the card
-    const rawSummary = await generateSummary(card, bank);
-    const markdownSummary = await convertToMarkdown(rawSummary);
-
-    // Save the summary to Supabase
-    await supabaseService.upsertCreditCardSummary({
-      card_id: card.id,
-      markdown_summary: markdownSummary,
-      status: 2, // Completed
-      error_message: null,
+    await withLogContext({ runId, cardId: card.id }, async () => {
+      logger.info("Generating summary", { cardName: card.name });
+
+      let bank = await supabaseService.getBankById(card.bank_id);
+      if (!bank) {
+        bank = await supabaseService.getUserBankById(card.bank_id);
+      }
+
+      if (!bank) {
+        logger.error("Bank not found. Skipping summary generation.", {
+          bankId: card.bank_id,
+        });
+        report.skipped++;
+        return;
+      }
+
+      try {
+        // Generate the summary for the card
+        const rawSummary = await generateSummary(card, bank);
+        const markdownSummary = await convertToMarkdown(rawSummary);
+
+        // Save the summary to Supabase
+        await supabaseService.upsertCreditCardSummary({
+          card_id: card.id,
+          markdown_summary: markdownSummary,
+          status: 2, // Completed
+          error_message: null,
+        });
+
+        report.generated++;
+        logger.info("Successfully generated and saved summary");
+      } catch (error) {
+        // No summary is saved, so the card is tried again on the next run.
+        report.failed++;
+        report.failures.push({
+          cardId: card.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        logger.error("Failed to generate summary", { error });
+      }
     });
+  }
 
-    console.log(
-      `Successfully generated and saved summary for card ${card.id}.`
-    );
+  report.totalMs = Math.round(performance.now() - startedAt);
+  if (runId) {
+    // A run fails when no card could be summarized, e.g. when the AI API is down.
+    const status = report.failed && !report.generated ? "failed" : "completed";
+    await supabaseService.completeJobRun(runId, status, report);
   }
+  logger.info("📊 Run report", { report });
+
+  return new Response(JSON.stringify(report), {
+    headers: { "Content-Type": "application/json" },
+    status: 200,
+  });
+};
 
-  return new Response("Summaries processed", { status: 200 });
-});
+Deno.serve(withServiceAuth("generate-card-summaries", credentials, handler));
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "npm:@google/genai@1.15.0";
 import { Bank, Card } from "../shared/models.ts";
+import { logger } from "../shared/logger.ts";
 
 const AI_API_KEY = Deno.env.get("AI_API_KEY");
 const AI_MODEL = Deno.env.get("AI_MODEL");
@@ -76,14 +77,13 @@ export async function generateSummary(card: Card, bank: Bank): Promise<string> {
       throw new Error("Model did not return a summary.");
     }
 
-    console.log(
-      `Generated raw summary for "${card.name}": ${
-        summary.substring(0, 100) // Shorten summary to 100 chars
-      }...`
-    );
+    logger.debug("Generated raw summary", {
+      cardName: card.name,
+      preview: summary.substring(0, 100), // Shorten summary to 100 chars
+    });
     return summary;
   } catch (error) {
-    console.error(`Error generating summary for "${card.name}":`, error);
+    logger.error("Error generating summary", { cardName: card.name, error });
     throw new Error(`Failed to generate summary: ${error}`);
   }
 }
@@ -140,12 +140,12 @@ export async function convertToMarkdown(
       throw new Error("AI did not return a markdown summary.");
     }
 
-    console.log(
-      `Generated Markdown summary: ${markdownSummary.substring(0, 100)}...`
-    );
+    logger.debug("Generated Markdown summary", {
+      preview: markdownSummary.substring(0, 100),
+    });
     return markdownSummary;
   } catch (error) {
-    console.error(`Error converting summary to Markdown:`, error);
+    logger.error("Error converting summary to Markdown", { error });
     throw new Error(`Failed to convert to Markdown: ${error}`);
   }
 }
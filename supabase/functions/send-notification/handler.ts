@@ -0,0 +1,754 @@
+import { DataRepository } from "../shared/DataRepository.ts";
+import {
+  NotificationPreview,
+  NotificationSender,
+  PreparedNotifications,
+} from "./notification/NotificationSender.ts";
+import { OutboxProcessor } from "./notification/OutboxProcessor.ts";
+import {
+  DeliveryChannels,
+  FailedDelivery,
+} from "./services/DeliveryChannel.ts";
+import {
+  JobRunReport,
+  NotificationLog,
+  NotificationStatus,
+  NotificationType,
+  ReminderSchedule,
+  SkipReason,
+} from "../shared/models.ts";
+import { logger, withLogContext } from "../shared/logger.ts";
+import { DEFAULT_TIMEZONE, getLocalDateTime } from "./utils/dateUtils.ts";
+import {
+  getReminderWindowStart,
+  isReminderDue,
+  MAX_REMINDER_LOOKBACK_MS,
+} from "./utils/scheduleUtils.ts";
+import { forEachWithConcurrency } from "./utils/concurrencyUtils.ts";
+import { DryRun, parseDryRun } from "./utils/dryRunUtils.ts";
+import {
+  getShardJobName,
+  getShardRange,
+  parseShard,
+  Shard,
+} from "./utils/shardUtils.ts";
+
+const JOB_NAME = "send-notification";
+const OUTBOX_JOB_NAME = `${JOB_NAME}:outbox`;
+
+/**
+ * Time a run lock is held beyond the time budget, covering the last page and
+ * writing its results. A lock left behind by a crashed invocation expires after
+ * the budget plus this grace period.
+ */
+const LOCK_GRACE_MS = 1000 * 60 * 5;
+
+/**
+ * Time dedupe keys are kept. A key only holds back notifications on the local
+ * date it names, which ends within about two days of the key being reserved
+ * in any timezone.
+ */
+const DEDUPE_KEY_RETENTION_MS = 1000 * 60 * 60 * 24 * 3;
+
+/**
+ * Users per page. The due users of a page are prefetched together, so this is
+ * kept small enough for the user ID filters to fit in a request URL.
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * NotificationRunOptions tunes how a run processes users.
+ */
+export interface NotificationRunOptions {
+  // Users processed at the same time within a page
+  concurrency: number;
+  // Time after which no new page is started; the next invocation resumes the run
+  timeBudgetMs: number;
+}
+
+export const DEFAULT_RUN_OPTIONS: NotificationRunOptions = {
+  concurrency: 10,
+  timeBudgetMs: 1000 * 120,
+};
+
+/**
+ * UserSkipReason type representing why a due user wasn't processed: their data
+ * couldn't be loaded, another run already processed them today, or processing
+ * failed.
+ */
+export type UserSkipReason = "no_data" | "already_processed" | "error";
+
+/**
+ * RunReport is the structured outcome of a notification run. Each invocation
+ * returns it and records it on the run in `job_runs`. A run that spans several
+ * invocations adds up their counts and durations.
+ */
+export interface RunReport {
+  jobName: string;
+  runId: string | null;
+  shard: Shard | null;
+  invocations: number;
+  pages: number;
+  // Whether the run got through all its users, or stopped at its time budget
+  complete: boolean;
+  // The error that ended the run, if any
+  error: string | null;
+  usersDue: number;
+  usersProcessed: number;
+  usersSkipped: Record<UserSkipReason, number>;
+  // Notification decisions per type and status, e.g. { due: { sent: 2 } }
+  notifications: Partial<
+    Record<NotificationType, Partial<Record<NotificationStatus, number>>>
+  >;
+  skipReasons: Partial<Record<SkipReason, number>>;
+  // Failed deliveries per error code (e.g. "messaging/internal-error"),
+  // counted per notification
+  deliveryFailures: Record<string, number>;
+  outboxRetried: number;
+  tokensPruned: number;
+  dedupeKeysPruned: number;
+  // Milliseconds per phase; paged phases are summed over all pages
+  durations: Record<
+    "outbox" | "schedules" | "prefetch" | "claim" | "process" | "persist",
+    number
+  >;
+  totalMs: number;
+}
+
+/**
+ * Creates the handler for the notification routine. Services are injected so the
+ * routine can run against any repository and delivery channels, e.g.
+ * `InMemoryRepository` and `InMemoryDeliveryChannel`.
+ * @param repository The data access repository.
+ * @param deliveryChannels The channels notifications are delivered through.
+ * @param notificationSender The sender that decides what each user receives.
+ * @param outboxProcessor Retries failed deliveries from earlier runs.
+ * @param options Tunes how users are processed.
+ * @param clock Returns the current time, e.g. a frozen date in tests.
+ * @returns A request handler for `Deno.serve`.
+ */
+export function createNotificationHandler(
+  repository: DataRepository,
+  deliveryChannels: DeliveryChannels,
+  notificationSender: NotificationSender,
+  outboxProcessor: OutboxProcessor,
+  options: NotificationRunOptions = DEFAULT_RUN_OPTIONS,
+  clock: () => Date = () => new Date(),
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    // Only allow GET requests
+    if (req.method !== "GET") {
+      return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
+        headers: { "Content-Type": "application/json" },
+        status: 405,
+      });
+    }
+
+    // Push is the primary channel; email and webhooks are optional, and a
+    // misconfigured one is skipped rather than holding back every reminder.
+    if (
+      !repository.isInitialized() || !deliveryChannels.push?.isInitialized()
+    ) {
+      return new Response("Push channel/Supabase not initialized", {
+        status: 500,
+      });
+    }
+    for (const channel of Object.values(deliveryChannels)) {
+      if (!channel.isInitialized()) {
+        logger.warn("⚠️ Delivery channel not initialized; skipping it", {
+          channel: channel.type,
+        });
+      }
+    }
+
+    const params = new URL(req.url).searchParams;
+    let dryRun: DryRun | null;
+    let shard: Shard | null;
+    try {
+      dryRun = parseDryRun(params, clock());
+      shard = parseShard(params);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: (error as Error).message }),
+        { headers: { "Content-Type": "application/json" }, status: 400 },
+      );
+    }
+    if (dryRun) {
+      return previewNotifications(repository, notificationSender, dryRun);
+    }
+    // Each shard pages through its own range of users and keeps its own runs.
+    const jobName = getShardJobName(JOB_NAME, shard);
+    const range = shard
+      ? getShardRange(shard)
+      : { fromUserId: null, toUserId: null };
+
+    // Overlapping invocations of the same job, e.g. a cron firing twice or a
+    // retry after a timeout, are rejected while another one holds the lock.
+    const lockTtlMs = options.timeBudgetMs + LOCK_GRACE_MS;
+    const runNotifications = async (): Promise<Response> => {
+      const now = clock();
+      const startedAt = performance.now();
+
+      // A run that ran out of time is resumed after the last user it got
+      // through, with the same window. Otherwise a new run picks up every
+      // reminder time that passed since the last successful run, so late,
+      // skipped or retried cron ticks don't drop users for the day.
+      const resumed = await repository.getResumableJobRun(
+        jobName,
+        new Date(now.getTime() - MAX_REMINDER_LOOKBACK_MS),
+      );
+      let windowStart: Date;
+      if (resumed?.window_start) {
+        windowStart = new Date(resumed.window_start);
+      } else {
+        // Users the last run left unprocessed, e.g. because processing them
+        // failed, are picked up again from the start of its window.
+        const lastRun = await repository.getLastSuccessfulJobRun(jobName);
+        windowStart = getReminderWindowStart(
+          now,
+          lastRun && hasUnprocessedUsers(lastRun.report)
+            ? lastRun.window_start
+            : lastRun?.started_at,
+        );
+      }
+      const runId = resumed?.id ??
+        await repository.startJobRun(jobName, now, windowStart);
+      return withLogContext({ jobName, runId }, async () => {
+        let cursor = resumed?.cursor ?? null;
+        if (resumed) {
+          logger.info("⏯️ Resuming run", { afterUserId: cursor });
+        }
+
+        const report = createRunReport(
+          jobName,
+          runId,
+          shard,
+          resumed?.report ?? null,
+        );
+        const time = <T>(
+          phase: keyof RunReport["durations"],
+          task: () => Promise<T>,
+        ) => timed(report.durations, phase, task);
+
+        const logs: NotificationLog[] = [];
+        const failedTokens: string[] = [];
+        const failures: FailedDelivery[] = [];
+        const tierUpdates = new Map<string, number>();
+        // Written after every page, so the saved cursor never runs ahead of the
+        // work that was recorded.
+        const persist = () =>
+          time("persist", async () => {
+            tallyLogs(report, logs);
+            if (failures.length) {
+              await outboxProcessor.enqueue(failures.splice(0), now);
+            }
+            if (logs.length) {
+              await repository.insertNotificationLog(logs.splice(0));
+            }
+            if (failedTokens.length) {
+              const staleTokens = [...new Set(failedTokens.splice(0))];
+              report.tokensPruned += staleTokens.length;
+              await repository.deleteStaleTokens(staleTokens);
+            }
+            if (tierUpdates.size) {
+              await repository.updateCardUtilizationTiers(new Map(tierUpdates));
+              tierUpdates.clear();
+            }
+          });
+
+        // Loads, claims and processes the due users of a page. The page's data
+        // is loaded in a few set-based queries instead of per user.
+        const processPage = async (schedules: ReminderSchedule[]) => {
+          const data = await time(
+            "prefetch",
+            () =>
+              repository.getUserNotificationData(
+                schedules.map((s) => s.user_id),
+              ),
+          );
+          // Claiming guarantees a user is processed once per local day, even
+          // when runs overlap. Users whose data failed to load are left for a
+          // later run.
+          const loaded = schedules.filter((s) => data.has(s.user_id));
+          const claimed = new Set(
+            await time("claim", () => claimUsers(repository, loaded, now)),
+          );
+          const users = [...data].filter(([userId]) => claimed.has(userId));
+          report.usersSkipped.no_data += schedules.length - loaded.length;
+          report.usersSkipped.already_processed += loaded.length - users.length;
+          const failed = new Set<string>();
+          const processUser = (
+            userId: string,
+            task: () => void | Promise<void>,
+          ) =>
+            withLogContext({ userId }, async () => {
+              try {
+                await task();
+              } catch (error) {
+                failed.add(userId);
+                report.usersSkipped.error++;
+                logger.error("❌ Failed to process notifications", { error });
+              }
+            });
+
+          // Notifications are decided for every user first, so the page's
+          // dedupe keys are claimed together right before delivery. The logs
+          // of notifications held back are kept until the claim succeeds.
+          const prepared: PreparedNotifications[] = [];
+          const heldBackLogs: NotificationLog[] = [];
+          await time("process", async () => {
+            for (const [userId, userData] of users) {
+              await processUser(userId, () => {
+                prepared.push(
+                  notificationSender.prepareUserNotifications(
+                    userId,
+                    userData,
+                    now,
+                    heldBackLogs,
+                  ),
+                );
+              });
+            }
+          });
+          let claimedKeys = new Set<string>();
+          try {
+            claimedKeys = new Set(
+              await time("claim", () =>
+                repository.claimDedupeKeys([
+                  ...new Set(prepared.flatMap((p) => p.dedupeKeys)),
+                ])),
+            );
+            logs.push(...heldBackLogs);
+          } catch (error) {
+            // Nothing can be sent without the keys, so the page's users are
+            // released to be retried rather than recorded as duplicates.
+            logger.error("❌ Failed to claim dedupe keys", { error });
+            for (const { userId } of prepared.splice(0)) {
+              failed.add(userId);
+              report.usersSkipped.error++;
+            }
+          }
+          await time("process", () =>
+            forEachWithConcurrency(
+              prepared,
+              options.concurrency,
+              (userPrepared) =>
+                processUser(userPrepared.userId, async () => {
+                  await notificationSender.sendUserNotifications(
+                    userPrepared,
+                    claimedKeys,
+                    now,
+                    logs,
+                    failedTokens,
+                    failures,
+                    tierUpdates,
+                  );
+                  report.usersProcessed++;
+                }),
+            ));
+
+          // Failed users are released, so a later run can retry them today.
+          if (failed.size) {
+            await time(
+              "claim",
+              () =>
+                releaseUsers(
+                  repository,
+                  loaded.filter((s) => failed.has(s.user_id)),
+                  now,
+                ),
+            );
+          }
+        };
+
+        try {
+          // Deliveries that failed in earlier runs go out before today's
+          // reminders. Shards running side by side share the outbox, so it is
+          // drained under a lock of its own.
+          const retried = await time(
+            "outbox",
+            () =>
+              withJobLock(
+                repository,
+                OUTBOX_JOB_NAME,
+                lockTtlMs,
+                () => outboxProcessor.drain(now, failedTokens),
+              ),
+          );
+          if (retried) {
+            report.outboxRetried += retried;
+            logger.info("🔁 Retried queued deliveries", { count: retried });
+          }
+
+          while (performance.now() - startedAt < options.timeBudgetMs) {
+            const page = await time(
+              "schedules",
+              () =>
+                repository.getReminderSchedules({
+                  afterUserId: cursor,
+                  ...range,
+                  limit: PAGE_SIZE,
+                }),
+            );
+            report.pages++;
+            const usersToNotify = page.filter((s) =>
+              isReminderDue(s, now, windowStart)
+            );
+            report.usersDue += usersToNotify.length;
+
+            if (usersToNotify.length) {
+              logger.info("🔔 Processing notifications", {
+                users: usersToNotify.length,
+                windowStart: windowStart.toISOString(),
+              });
+              await processPage(usersToNotify);
+            }
+            await persist();
+
+            if (page.length) {
+              cursor = page[page.length - 1].user_id;
+              if (runId) {
+                await repository.saveJobRunProgress(runId, cursor, report);
+              }
+            }
+            if (page.length < PAGE_SIZE) {
+              report.complete = true;
+              break;
+            }
+          }
+
+          // Once all users are through, keys old enough to no longer hold
+          // anything back are cleared out.
+          if (report.complete) {
+            report.dedupeKeysPruned += await time(
+              "persist",
+              () =>
+                repository.pruneDedupeKeys(
+                  new Date(now.getTime() - DEDUPE_KEY_RETENTION_MS),
+                ),
+            );
+          }
+        } catch (error) {
+          report.error = error instanceof Error ? error.message : String(error);
+          logger.error("❌ Run failed", { error });
+        }
+        await persist();
+
+        report.totalMs += Math.round(performance.now() - startedAt);
+        if (runId) {
+          if (report.error) {
+            await repository.completeJobRun(runId, "failed", report);
+          } else if (report.complete) {
+            await repository.completeJobRun(runId, "completed", report);
+          } else {
+            await repository.saveJobRunProgress(runId, cursor, report);
+          }
+        }
+        logger.info("📊 Run report", { report });
+
+        if (report.error) {
+          return new Response(JSON.stringify(report), {
+            headers: { "Content-Type": "application/json" },
+            status: 500,
+          });
+        }
+        if (!report.complete) {
+          logger.info(
+            "⏸️ Time budget used up; the next invocation resumes the run",
+            { pages: report.pages, afterUserId: cursor },
+          );
+        } else if (!report.usersDue) {
+          logger.debug("📭 No users with reminders due", {
+            windowStart: windowStart.toISOString(),
+            now: now.toISOString(),
+          });
+        } else {
+          logger.info("✅ Notification routine complete.");
+        }
+        return new Response(JSON.stringify(report), {
+          headers: { "Content-Type": "application/json" },
+          status: 200,
+        });
+      });
+    };
+    const response = await withJobLock(
+      repository,
+      jobName,
+      lockTtlMs,
+      runNotifications,
+    );
+    if (!response) {
+      logger.warn("🔒 Job is already running, skipping invocation.", {
+        jobName,
+      });
+      return new Response(
+        JSON.stringify({ error: `${jobName} is already running` }),
+        { headers: { "Content-Type": "application/json" }, status: 409 },
+      );
+    }
+    return response;
+  };
+}
+
+/**
+ * Previews the notifications of one user, or of a page of all users, at a
+ * simulated time. Users are previewed whether or not their reminder time has
+ * come, and nothing is sent, logged, claimed or locked.
+ * @param repository The data access repository.
+ * @param notificationSender The sender that decides what each user receives.
+ * @param dryRun The users, time and language to preview.
+ * @returns A JSON response with a preview per user.
+ */
+async function previewNotifications(
+  repository: DataRepository,
+  notificationSender: NotificationSender,
+  dryRun: DryRun,
+): Promise<Response> {
+  let userIds: string[];
+  let nextCursor: string | null = null;
+  if (dryRun.userId) {
+    userIds = [dryRun.userId];
+  } else {
+    const page = await repository.getReminderSchedules({
+      afterUserId: dryRun.afterUserId,
+      fromUserId: null,
+      toUserId: null,
+      limit: PAGE_SIZE,
+    });
+    userIds = page.map((s) => s.user_id);
+    if (page.length === PAGE_SIZE) {
+      nextCursor = userIds[userIds.length - 1];
+    }
+  }
+
+  const data = await repository.getUserNotificationData(userIds);
+  if (dryRun.userId && !data.has(dryRun.userId)) {
+    return new Response(
+      JSON.stringify({
+        error: `User ${dryRun.userId} not found or has notifications disabled`,
+      }),
+      { headers: { "Content-Type": "application/json" }, status: 404 },
+    );
+  }
+
+  const users: NotificationPreview[] = [];
+  for (const [userId, userData] of data) {
+    const setting = dryRun.language
+      ? { ...userData.setting, language: dryRun.language }
+      : userData.setting;
+    users.push(
+      notificationSender.previewUserNotifications(
+        userId,
+        { ...userData, setting },
+        dryRun.now,
+      ),
+    );
+  }
+  logger.info("🔍 Dry run", {
+    users: users.length,
+    now: dryRun.now.toISOString(),
+  });
+  return new Response(
+    JSON.stringify({ now: dryRun.now.toISOString(), users, nextCursor }),
+    { headers: { "Content-Type": "application/json" }, status: 200 },
+  );
+}
+
+/**
+ * Creates the report of an invocation. A resumed run carries on from the report
+ * its previous invocation recorded.
+ * @param jobName The name of the job.
+ * @param runId The ID of the run, if it was recorded.
+ * @param shard The shard, or null if the run is not sharded.
+ * @param previous The report recorded by the run's previous invocation, if any.
+ * @returns The report to fill in.
+ */
+function createRunReport(
+  jobName: string,
+  runId: string | null,
+  shard: Shard | null,
+  previous: JobRunReport | null,
+): RunReport {
+  const report: RunReport = {
+    jobName,
+    runId,
+    shard,
+    invocations: 0,
+    pages: 0,
+    complete: false,
+    error: null,
+    usersDue: 0,
+    usersProcessed: 0,
+    usersSkipped: { no_data: 0, already_processed: 0, error: 0 },
+    notifications: {},
+    skipReasons: {},
+    deliveryFailures: {},
+    outboxRetried: 0,
+    tokensPruned: 0,
+    dedupeKeysPruned: 0,
+    durations: {
+      outbox: 0,
+      schedules: 0,
+      prefetch: 0,
+      claim: 0,
+      process: 0,
+      persist: 0,
+    },
+    totalMs: 0,
+  };
+  const carried = previous as Partial<RunReport> | null;
+  return {
+    ...report,
+    ...carried,
+    invocations: (carried?.invocations ?? 0) + 1,
+    complete: false,
+    error: null,
+  };
+}
+
+/**
+ * Counts a batch of notification logs into a run's report.
+ * @param report The report of the run.
+ * @param logs The logs written for the run.
+ */
+function tallyLogs(report: RunReport, logs: NotificationLog[]): void {
+  for (const log of logs) {
+    increment(
+      report.notifications[log.notification_type] ??= {},
+      log.status,
+    );
+    if (log.skip_reason) {
+      increment(report.skipReasons, log.skip_reason);
+    }
+    for (const delivery of log.deliveries ?? []) {
+      if (delivery.status !== "delivered") {
+        increment(report.deliveryFailures, delivery.error_code ?? "unknown");
+      }
+    }
+  }
+}
+
+function increment<K extends string>(
+  counts: Partial<Record<K, number>>,
+  key: K,
+): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Claims users for their current local day. Users sharing a local date are
+ * claimed together in one update.
+ * @param repository The data access repository.
+ * @param schedules The schedules of the users to claim.
+ * @param now The current time.
+ * @returns The IDs of the users this run claimed.
+ */
+async function claimUsers(
+  repository: DataRepository,
+  schedules: ReminderSchedule[],
+  now: Date,
+): Promise<string[]> {
+  const claimed = await Promise.all(
+    [...groupByLocalDate(schedules, now)].map(([localDate, userIds]) =>
+      repository.claimUserDigests(userIds, localDate)
+    ),
+  );
+  return claimed.flat();
+}
+
+/**
+ * Releases the claims of users whose processing failed, so they are due again.
+ * @param repository The data access repository.
+ * @param schedules The schedules of the users to release.
+ * @param now The current time.
+ */
+async function releaseUsers(
+  repository: DataRepository,
+  schedules: ReminderSchedule[],
+  now: Date,
+): Promise<void> {
+  await Promise.all(
+    [...groupByLocalDate(schedules, now)].map(([localDate, userIds]) =>
+      repository.releaseUserDigests(userIds, localDate)
+    ),
+  );
+}
+
+/**
+ * Groups users by their current local date.
+ * @param schedules The schedules of the users.
+ * @param now The current time.
+ * @returns The IDs of the users per local date.
+ */
+function groupByLocalDate(
+  schedules: ReminderSchedule[],
+  now: Date,
+): Map<string, string[]> {
+  const usersByDate = new Map<string, string[]>();
+  for (const schedule of schedules) {
+    const localDate =
+      getLocalDateTime(now, schedule.timezone || DEFAULT_TIMEZONE).date;
+    usersByDate.set(localDate, [
+      ...(usersByDate.get(localDate) ?? []),
+      schedule.user_id,
+    ]);
+  }
+  return usersByDate;
+}
+
+/**
+ * Checks whether a run left due users unprocessed, because their data failed
+ * to load or processing them failed.
+ * @param report The report recorded for the run.
+ * @returns True if any due user was left for a later run.
+ */
+function hasUnprocessedUsers(report: JobRunReport | null): boolean {
+  const skipped = (report as Partial<RunReport> | null)?.usersSkipped;
+  return Boolean(skipped?.no_data || skipped?.error);
+}
+
+/**
+ * Runs a task while holding a job's lock, so that no other invocation runs it
+ * at the same time.
+ * @param repository The data access repository.
+ * @param jobName The name of the job to lock.
+ * @param ttlMs Time after which the lock expires if it isn't released.
+ * @param task The task to run.
+ * @returns The task's result, or null if another invocation holds the lock.
+ */
+async function withJobLock<T>(
+  repository: DataRepository,
+  jobName: string,
+  ttlMs: number,
+  task: () => Promise<T>,
+): Promise<T | null> {
+  const holder = crypto.randomUUID();
+  if (!(await repository.acquireJobLock(jobName, holder, ttlMs))) {
+    return null;
+  }
+  try {
+    return await task();
+  } finally {
+    await repository.releaseJobLock(jobName, holder);
+  }
+}
+
+/**
+ * Runs a task and adds its duration to a phase.
+ * @param durations The accumulated milliseconds per phase.
+ * @param phase The phase the task belongs to.
+ * @param task The task to run.
+ * @returns The task's result.
+ */
+async function timed<TPhase extends string, T>(
+  durations: Record<TPhase, number>,
+  phase: TPhase,
+  task: () => Promise<T>,
+): Promise<T> {
+  const start = performance.now();
+  try {
+    return await task();
+  } finally {
+    durations[phase] += Math.round(performance.now() - start);
+  }
+}
@@ -0,0 +1,684 @@
+import assert from "node:assert/strict";
+import {
+  CardFixture,
+  InMemoryRepository,
+  PaymentFixture,
+  RepositoryFixtures,
+  SettingFixture,
+} from "../shared/InMemoryRepository.ts";
+import { createNotificationHandler, RunReport } from "./handler.ts";
+import { CadenceScheduler } from "./notification/CadenceScheduler.ts";
+import { NotificationSender } from "./notification/NotificationSender.ts";
+import { OutboxProcessor } from "./notification/OutboxProcessor.ts";
+import { InMemoryDeliveryChannel } from "./services/InMemoryDeliveryChannel.ts";
+
+// Every run happens at this instant, when the users' 09:00 UTC reminder is due.
+const NOW = new Date("2025-06-10T09:00:00Z");
+const clock = () => new Date(NOW);
+
+function setting(
+  userId: string,
+  changes: Partial<SettingFixture> = {},
+): SettingFixture {
+  return {
+    user_id: userId,
+    notifications_enabled: true,
+    reminder_time: "09:00:00",
+    timezone: "UTC",
+    last_digest_date: null,
+    language: "english",
+    currency: "INR",
+    utilization_alert_threshold: 30,
+    notification_mode: "individual",
+    cadence_overrides: null,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    snooze_until: null,
+    dnd_allow_overdue: false,
+    notification_channels: ["push"],
+    ...changes,
+  };
+}
+
+function card(
+  id: string,
+  userId: string,
+  changes: Partial<CardFixture> = {},
+): CardFixture {
+  return {
+    id,
+    user_id: userId,
+    name: "Millennia",
+    last_4_digits: "1234",
+    billing_date: "2025-01-20",
+    is_archived: false,
+    card_type: "Visa",
+    bank_id: "bank-1",
+    credit_card_summaries: null,
+    ...changes,
+  };
+}
+
+function payment(
+  cardId: string,
+  userId: string,
+  dueDate: string,
+): PaymentFixture {
+  return {
+    id: `payment-${cardId}`,
+    user_id: userId,
+    card_id: cardId,
+    due_date: dueDate,
+    due_amount: 0,
+    paid_amount: 0,
+    statement_amount: 5000,
+    minimum_due_amount: 500,
+    is_paid: false,
+  };
+}
+
+function createHandler(
+  repository: InMemoryRepository,
+  push: InMemoryDeliveryChannel,
+  clock: () => Date,
+  sender = new NotificationSender({ push }, new CadenceScheduler(), clock),
+) {
+  const channels = { push };
+  return createNotificationHandler(
+    repository,
+    channels,
+    sender,
+    new OutboxProcessor(repository, channels),
+    undefined,
+    clock,
+  );
+}
+
+/**
+ * Runs the notification routine once at the frozen time.
+ */
+async function run(
+  fixtures: RepositoryFixtures,
+  push = new InMemoryDeliveryChannel(),
+) {
+  const repository = new InMemoryRepository(fixtures, clock);
+  const handler = createHandler(repository, push, clock);
+  const response = await handler(new Request("http://localhost/"));
+  const report: RunReport = await response.json();
+  return { repository, push, response, report };
+}
+
+Deno.test("sends a due reminder ahead of the due date", async () => {
+  const { repository, push, response } = await run({
+    settings: [setting("user-1")],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-12")],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.card_id,
+      log.notification_type,
+      log.status,
+    ]),
+    [["card-1", "due", "sent"]],
+  );
+  assert.equal(push.sent.length, 1);
+  assert.equal(
+    repository.notificationDeliveries[0].attempted_at,
+    NOW.toISOString(),
+  );
+  assert.equal(repository.settings[0].last_digest_date, "2025-06-10");
+});
+
+Deno.test("sends an overdue alert after the due date", async () => {
+  const { repository } = await run({
+    settings: [setting("user-1")],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-05")],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "ios",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.status,
+    ]),
+    [["overdue", "sent"]],
+  );
+});
+
+Deno.test("sends a billing reminder for cards without a payment", async () => {
+  const { repository } = await run({
+    settings: [setting("user-1")],
+    // Bills on the 11th of every month, i.e. tomorrow
+    cards: [card("card-1", "user-1", { billing_date: "2025-01-11" })],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.status,
+    ]),
+    [["billing", "sent"]],
+  );
+});
+
+Deno.test("skips users whose reminder time hasn't come", async () => {
+  const { repository, report } = await run({
+    // The last run covered the reminder time on the previous day.
+    jobRuns: [{
+      id: "run-0",
+      job_name: "send-notification",
+      status: "completed",
+      started_at: "2025-06-10T08:45:00Z",
+      completed_at: "2025-06-10T08:45:05Z",
+      window_start: "2025-06-10T08:30:00Z",
+      cursor: null,
+      report: null,
+    }],
+    settings: [setting("user-1", { reminder_time: "18:30:00" })],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-12")],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.equal(report.usersDue, 0);
+  assert.equal(repository.notificationLogs.length, 0);
+  assert.equal(repository.settings[0].last_digest_date, null);
+});
+
+Deno.test("prunes device tokens the push service rejects", async () => {
+  const push = new InMemoryDeliveryChannel()
+    .simulate("token-stale", "invalid-token");
+  const { repository, report } = await run({
+    settings: [setting("user-1")],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-12")],
+    deviceTokens: [
+      { user_id: "user-1", device_token: "token-stale", platform: "android" },
+      { user_id: "user-1", device_token: "token-live", platform: "ios" },
+    ],
+  }, push);
+
+  assert.deepEqual(
+    repository.deviceTokens.map((token) => token.device_token),
+    ["token-live"],
+  );
+  assert.equal(report.tokensPruned, 1);
+  assert.deepEqual(
+    repository.notificationDeliveries
+      .map((delivery) => [delivery.recipient, delivery.status])
+      .sort(),
+    [["token-live", "delivered"], ["token-stale", "token_removed"]],
+  );
+  // The stale token is dropped rather than queued for retry
+  assert.equal(repository.outbox.length, 0);
+});
+
+Deno.test("retries users whose processing failed in the next run", async () => {
+  const repository = new InMemoryRepository({
+    settings: [setting("user-1")],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-12")],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  }, clock);
+  const push = new InMemoryDeliveryChannel();
+  const failingSender = new NotificationSender(
+    { push },
+    new CadenceScheduler(),
+    clock,
+  );
+  failingSender.prepareUserNotifications = () => {
+    throw new Error("planning failed");
+  };
+
+  const first = await createHandler(repository, push, clock, failingSender)(
+    new Request("http://localhost/"),
+  );
+  const report: RunReport = await first.json();
+  assert.equal(report.usersSkipped.error, 1);
+  assert.equal(repository.settings[0].last_digest_date, null);
+
+  // The next run, a cron tick later, picks the user up again.
+  const later = () => new Date(NOW.getTime() + 1000 * 60 * 15);
+  await createHandler(repository, push, later)(
+    new Request("http://localhost/"),
+  );
+  assert.equal(push.sent.length, 1);
+  assert.equal(repository.settings[0].last_digest_date, "2025-06-10");
+});
+
+Deno.test("derives the due date of a statement without a payment", async () => {
+  const { repository } = await run({
+    settings: [setting("user-1")],
+    // Billed on the 1st with 20 days to pay, so due on June 21
+    cards: [
+      card("card-1", "user-1", {
+        billing_date: "2025-01-01",
+        due_grace_period_days: 20,
+      }),
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.payload,
+    ]),
+    [["due", "/cards/card-1"]],
+  );
+});
+
+Deno.test("warns of the grace period ending as a due reminder", async () => {
+  const { repository } = await run({
+    settings: [setting("user-1", { dnd_allow_overdue: true })],
+    // Billed on the 1st with 10 days to pay, so the grace period ends tomorrow
+    cards: [
+      card("card-1", "user-1", {
+        billing_date: "2025-01-01",
+        due_grace_period_days: 10,
+      }),
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.status,
+    ]),
+    [["due", "sent"]],
+  );
+  assert.match(repository.notificationLogs[0].title, /grace/i);
+  assert.deepEqual(
+    repository.dedupeKeys.map((key) => key.dedupe_key),
+    ["user-1:card-1:due:2025-06-10"],
+  );
+});
+
+Deno.test("derives the due date of a statement generated today", async () => {
+  const { repository } = await run({
+    settings: [setting("user-1")],
+    // Billed today with 20 days to pay, so due on June 30
+    cards: [
+      card("card-1", "user-1", {
+        billing_date: "2025-01-10",
+        due_grace_period_days: 20,
+      }),
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.payload,
+    ]),
+    [["due", "/cards/card-1"]],
+  );
+  assert.match(repository.notificationLogs[0].body, /in 20 days/);
+});
+
+Deno.test("sends no expected due reminder once the statement is paid", async () => {
+  const { repository } = await run({
+    settings: [setting("user-1")],
+    cards: [
+      card("card-1", "user-1", {
+        billing_date: "2025-01-01",
+        due_grace_period_days: 20,
+      }),
+    ],
+    payments: [{
+      ...payment("card-1", "user-1", "2025-06-21"),
+      paid_amount: 5000,
+      is_paid: true,
+    }],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => log.notification_type),
+    ["billing"],
+  );
+});
+
+Deno.test("holds reminders set within quiet hours until they end", async () => {
+  const repository = new InMemoryRepository({
+    settings: [
+      setting("user-1", {
+        quiet_hours_start: "08:00",
+        quiet_hours_end: "10:00",
+      }),
+    ],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-12")],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  }, clock);
+  const push = new InMemoryDeliveryChannel();
+
+  await createHandler(repository, push, clock)(
+    new Request("http://localhost/"),
+  );
+  assert.equal(repository.notificationLogs.length, 0);
+  assert.equal(repository.settings[0].last_digest_date, null);
+
+  const afterQuietHours = () => new Date("2025-06-10T10:00:00Z");
+  await createHandler(repository, push, afterQuietHours)(
+    new Request("http://localhost/"),
+  );
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.status,
+    ]),
+    [["due", "sent"]],
+  );
+});
+
+Deno.test("records a raised utilization tier only once it is alerted", async () => {
+  const fixtures: RepositoryFixtures = {
+    settings: [setting("user-1")],
+    cards: [
+      card("card-1", "user-1", {
+        credit_limit: 10000,
+        current_utilization: 6000,
+      }),
+      card("card-2", "user-1", {
+        credit_limit: 10000,
+        current_utilization: 1000,
+        utilization_alert_tier: 90,
+      }),
+    ],
+  };
+
+  // Without a device, the alert is skipped and the tier stays unalerted, but
+  // the drop below every tier is still recorded.
+  const unreachable = await run(fixtures);
+  assert.deepEqual(
+    unreachable.repository.notificationLogs
+      .filter((log) => log.notification_type === "utilization")
+      .map((log) => [log.card_id, log.skip_reason]),
+    [["card-1", "no_recipients"]],
+  );
+  assert.deepEqual(
+    unreachable.repository.cards.map((c) => c.utilization_alert_tier),
+    [undefined, 0],
+  );
+
+  const reachable = await run({
+    ...fixtures,
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+  assert.deepEqual(
+    reachable.repository.cards.map((c) => c.utilization_alert_tier),
+    [50, 0],
+  );
+});
+
+Deno.test("claims a page's dedupe keys at once and emails prefetched addresses", async () => {
+  const repository = new InMemoryRepository({
+    settings: [
+      setting("user-1"),
+      setting("user-2", { notification_channels: ["email"] }),
+    ],
+    cards: [card("card-1", "user-1"), card("card-2", "user-2")],
+    payments: [
+      payment("card-1", "user-1", "2025-06-12"),
+      payment("card-2", "user-2", "2025-06-12"),
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+    users: [
+      { id: "user-1", email: "one@example.com" },
+      { id: "user-2", email: "two@example.com" },
+    ],
+  }, clock);
+  const claimedBatches: string[][] = [];
+  const claimDedupeKeys = repository.claimDedupeKeys.bind(repository);
+  repository.claimDedupeKeys = (keys) => {
+    claimedBatches.push(keys);
+    return claimDedupeKeys(keys);
+  };
+  const channels = {
+    push: new InMemoryDeliveryChannel(),
+    email: new InMemoryDeliveryChannel("email"),
+  };
+  const handler = createNotificationHandler(
+    repository,
+    channels,
+    new NotificationSender(channels, new CadenceScheduler(), clock),
+    new OutboxProcessor(repository, channels),
+    undefined,
+    clock,
+  );
+
+  await handler(new Request("http://localhost/"));
+
+  assert.equal(claimedBatches.length, 1);
+  assert.equal(claimedBatches[0].length, 2);
+  assert.deepEqual(
+    channels.email.sent.flatMap((sent) =>
+      sent.results.map((result) => result.recipient)
+    ),
+    ["two@example.com"],
+  );
+  assert.equal(channels.push.sent.length, 1);
+});
+
+Deno.test("prunes old dedupe keys once a run completes", async () => {
+  const { repository, report } = await run({
+    dedupeKeys: [
+      { dedupe_key: "old", created_at: "2025-06-01T09:00:00.000Z" },
+      { dedupe_key: "recent", created_at: "2025-06-09T09:00:00.000Z" },
+    ],
+  });
+
+  assert.equal(report.dedupeKeysPruned, 1);
+  assert.deepEqual(
+    repository.dedupeKeys.map((key) => key.dedupe_key),
+    ["recent"],
+  );
+});
+
+Deno.test("sends one alert per card and type for two unpaid payments", async () => {
+  const { repository, push } = await run({
+    settings: [setting("user-1")],
+    cards: [card("card-1", "user-1")],
+    payments: [
+      { ...payment("card-1", "user-1", "2025-05-05"), id: "payment-may" },
+      { ...payment("card-1", "user-1", "2025-06-05"), id: "payment-june" },
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs
+      .map((log) => [log.notification_type, log.status, log.skip_reason])
+      .sort(),
+    [["overdue", "sent", null], ["overdue", "skipped", "duplicate"]],
+  );
+  assert.equal(push.sent.length, 1);
+});
+
+Deno.test("repeats a partial payment alert only once more is paid", async () => {
+  const partialLog = (cardId: string, paidAmount: number) => ({
+    id: `log-${cardId}`,
+    user_id: "user-1",
+    card_id: cardId,
+    notification_type: "partial" as const,
+    title: "Partial payment received",
+    body: "Old English copy",
+    payload: `/card_details/${cardId}`,
+    status: "sent" as const,
+    error_code: null,
+    skip_reason: null,
+    paid_amount: paidAmount,
+    sent_at: "2025-06-09T09:00:00Z",
+  });
+  const { repository } = await run({
+    // The user switched languages since the last alerts.
+    settings: [setting("user-1", { language: "hindi" })],
+    cards: [card("card-1", "user-1"), card("card-2", "user-1")],
+    payments: [
+      { ...payment("card-1", "user-1", "2025-06-12"), paid_amount: 2000 },
+      { ...payment("card-2", "user-1", "2025-06-12"), paid_amount: 3000 },
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+    notificationLogs: [partialLog("card-1", 2000), partialLog("card-2", 1000)],
+  });
+
+  assert.deepEqual(
+    repository.notificationLogs
+      .filter((log) =>
+        log.notification_type === "partial" &&
+        log.sent_at === NOW.toISOString()
+      )
+      .map((log) => [
+        log.card_id,
+        log.status,
+        log.skip_reason,
+        log.paid_amount,
+      ]),
+    [["card-1", "skipped", "unchanged", 2000], ["card-2", "sent", null, 3000]],
+  );
+});
+
+Deno.test("releases a page's users when claiming dedupe keys fails", async () => {
+  const repository = new InMemoryRepository({
+    settings: [setting("user-1")],
+    cards: [card("card-1", "user-1")],
+    payments: [payment("card-1", "user-1", "2025-06-12")],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+  }, clock);
+  const claimDedupeKeys = repository.claimDedupeKeys.bind(repository);
+  repository.claimDedupeKeys = () =>
+    Promise.reject(new Error("connection reset"));
+  const push = new InMemoryDeliveryChannel();
+
+  const first = await createHandler(repository, push, clock)(
+    new Request("http://localhost/"),
+  );
+  const report: RunReport = await first.json();
+  assert.equal(report.usersSkipped.error, 1);
+  assert.equal(repository.notificationLogs.length, 0);
+  assert.equal(repository.settings[0].last_digest_date, null);
+
+  repository.claimDedupeKeys = claimDedupeKeys;
+  const later = () => new Date(NOW.getTime() + 1000 * 60 * 15);
+  await createHandler(repository, push, later)(
+    new Request("http://localhost/"),
+  );
+  assert.deepEqual(
+    repository.notificationLogs.map((log) => [
+      log.notification_type,
+      log.status,
+    ]),
+    [["due", "sent"]],
+  );
+});
+
+Deno.test("keeps sending push when the email channel isn't initialized", async () => {
+  const repository = new InMemoryRepository({
+    settings: [
+      setting("user-1"),
+      setting("user-2", { notification_channels: ["email"] }),
+    ],
+    cards: [card("card-1", "user-1"), card("card-2", "user-2")],
+    payments: [
+      payment("card-1", "user-1", "2025-06-12"),
+      payment("card-2", "user-2", "2025-06-12"),
+    ],
+    deviceTokens: [{
+      user_id: "user-1",
+      device_token: "token-1",
+      platform: "android",
+    }],
+    users: [{ id: "user-2", email: "two@example.com" }],
+  }, clock);
+  const email = new InMemoryDeliveryChannel("email");
+  email.isInitialized = () => false;
+  const channels = { push: new InMemoryDeliveryChannel(), email };
+  const handler = createNotificationHandler(
+    repository,
+    channels,
+    new NotificationSender(channels, new CadenceScheduler(), clock),
+    new OutboxProcessor(repository, channels),
+    undefined,
+    clock,
+  );
+
+  const response = await handler(new Request("http://localhost/"));
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(
+    repository.notificationLogs
+      .map((log) => [log.user_id, log.status, log.skip_reason])
+      .sort(),
+    [["user-1", "sent", null], ["user-2", "skipped", "no_recipients"]],
+  );
+  assert.equal(email.sent.length, 0);
+});
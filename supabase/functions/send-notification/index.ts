@@ -1,7 +1,20 @@
 import { SupabaseService } from "../shared/SupabaseService.ts";
+import { ServiceCredentials, withServiceAuth } from "../shared/auth.ts";
 import { FirebaseService } from "./services/FirebaseService.ts";
+import { EmailService } from "./services/EmailService.ts";
+import { WebhookService } from "./services/WebhookService.ts";
+import { DeliveryChannels } from "./services/DeliveryChannel.ts";
 import { NotificationSender } from "./notification/NotificationSender.ts";
-import { NotificationLog } from "../shared/models.ts";
+import {
+  CadenceScheduler,
+  parseCadencePolicy,
+} from "./notification/CadenceScheduler.ts";
+import { OutboxProcessor } from "./notification/OutboxProcessor.ts";
+import {
+  createNotificationHandler,
+  DEFAULT_RUN_OPTIONS,
+  NotificationRunOptions,
+} from "./handler.ts";
 
 // --- Service Initialization ---
 const supabaseService = new SupabaseService(
@@ -13,61 +26,68 @@ const firebaseService = new FirebaseService(
   Deno.env.get("FIREBASE_SERVICE_ACCOUNT_JSON"),
 );
 
-const notificationSender = new NotificationSender(
-  supabaseService,
-  firebaseService,
-);
+const deliveryChannels: DeliveryChannels = {
+  push: firebaseService,
+  webhook: new WebhookService(),
+};
 
-/**
- * Main handler for the notification routine.
- */
-Deno.serve(async (req) => {
-  // Only allow GET requests
-  if (req.method !== "GET") {
-    return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
-      headers: { "Content-Type": "application/json" },
-      status: 405,
-    });
-  }
-
-  if (!supabaseService.isInitialized() || !firebaseService.isInitialized()) {
-    return new Response("Firebase/Supabase not initialized", { status: 500 });
-  }
+// Email is optional and only enabled when an SMTP server is configured.
+if (Deno.env.get("SMTP_HOST")) {
+  deliveryChannels.email = new EmailService({
+    host: Deno.env.get("SMTP_HOST"),
+    port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+    secure: Deno.env.get("SMTP_SECURE") === "true",
+    user: Deno.env.get("SMTP_USER"),
+    pass: Deno.env.get("SMTP_PASS"),
+    from: Deno.env.get("SMTP_FROM"),
+    appUrl: Deno.env.get("APP_URL"),
+  });
+}
 
-  const now = new Date();
-  const reminderTime = now.toISOString().slice(11, 16); // e.g., "19:24"
-
-  const usersToNotify = await supabaseService.getUsersToNotify(reminderTime);
-  const logs: NotificationLog[] = [];
-  const failedTokens: string[] = [];
+const cadenceScheduler = new CadenceScheduler(
+  parseCadencePolicy(Deno.env.get("NOTIFICATION_CADENCE_POLICY")),
+);
 
-  if (!usersToNotify.length) {
-    console.debug(
-      `📭 No users configured to receive notifications at ${reminderTime}.`,
-    );
-    return new Response("No users to notify at this time", { status: 200 });
-  }
+const notificationSender = new NotificationSender(
+  deliveryChannels,
+  cadenceScheduler,
+);
 
-  console.log(
-    `🔔 Processing notifications for ${usersToNotify.length} users at ${reminderTime}.`,
-  );
+const outboxMaxAttempts = Number(Deno.env.get("OUTBOX_MAX_ATTEMPTS"));
+const outboxProcessor = new OutboxProcessor(
+  supabaseService,
+  deliveryChannels,
+  outboxMaxAttempts > 0 ? { maxAttempts: outboxMaxAttempts } : {},
+);
 
-  for (const userId of usersToNotify) {
-    await notificationSender.processUserNotifications(
-      userId,
-      now,
-      logs,
-      failedTokens,
-    );
-  }
+const concurrency = Number(Deno.env.get("NOTIFICATION_CONCURRENCY"));
+const timeBudgetMs = Number(Deno.env.get("NOTIFICATION_TIME_BUDGET_MS"));
+const runOptions: NotificationRunOptions = {
+  concurrency: concurrency > 0 ? concurrency : DEFAULT_RUN_OPTIONS.concurrency,
+  timeBudgetMs: timeBudgetMs > 0
+    ? timeBudgetMs
+    : DEFAULT_RUN_OPTIONS.timeBudgetMs,
+};
 
-  if (logs.length) {
-    await supabaseService.insertNotificationLog(logs);
-  }
-  if (failedTokens.length) {
-    await supabaseService.deleteStaleTokens(failedTokens);
-  }
+// Only the cron job and service role callers may run the routine.
+const credentials: ServiceCredentials = {
+  cronSecret: Deno.env.get("CRON_SECRET"),
+  serviceRoleKey: Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+};
 
-  console.log("✅ Notification routine complete.");
-  return new Response("Notification routine complete", { status: 200 });
-});
+/**
+ * Main handler for the notification routine.
+ */
+Deno.serve(
+  withServiceAuth(
+    "send-notification",
+    credentials,
+    createNotificationHandler(
+      supabaseService,
+      deliveryChannels,
+      notificationSender,
+      outboxProcessor,
+      runOptions,
+    ),
+  ),
+);
@@ -0,0 +1,206 @@
+import {
+  CadencePolicy,
+  CadenceWindow,
+  NotificationLog,
+  NotificationType,
+} from "../../shared/models.ts";
+import { getDaysDifference } from "../utils/dateUtils.ts";
+import { logger } from "../../shared/logger.ts";
+
+/**
+ * The built-in reminder cadence. Offsets are days until the event (due date or
+ * billing date): positive before it, 0 on the day, negative after it.
+ */
+export const DEFAULT_CADENCE_POLICY: CadencePolicy = {
+  due: [
+    // Daily within 5 days of the due date, otherwise every 3 days.
+    { fromDays: 0, toDays: 5, repeatEveryDays: 1 },
+    { fromDays: 6, repeatEveryDays: 3 },
+  ],
+  overdue: [
+    // Daily for the last days of the grace period and the first week overdue,
+    // then every 3 days.
+    { fromDays: -7, toDays: 3, repeatEveryDays: 1 },
+    { toDays: -8, repeatEveryDays: 3 },
+  ],
+  billing: [
+    // Daily within 3 days of the billing date, otherwise every 3 days.
+    { fromDays: -3, toDays: 3, repeatEveryDays: 1 },
+    { repeatEveryDays: 3 },
+  ],
+};
+
+/**
+ * CadenceDecision describes whether a reminder is due and which window applied.
+ */
+export interface CadenceDecision {
+  shouldSend: boolean;
+  window: CadenceWindow | null;
+}
+
+/**
+ * Notification types whose reminders follow a cadence policy.
+ */
+const CADENCE_TYPES = new Set<string>(["due", "overdue", "billing"]);
+
+const CADENCE_WINDOW_FIELDS = new Set([
+  "fromDays",
+  "toDays",
+  "repeatEveryDays",
+]);
+
+/**
+ * Parses a cadence policy from JSON, e.g. the `NOTIFICATION_CADENCE_POLICY` env var.
+ * @param json The JSON-encoded policy.
+ * @returns The parsed policy, or an empty policy if missing or invalid.
+ */
+export function parseCadencePolicy(json: string | undefined): CadencePolicy {
+  if (!json) return {};
+  let policy: unknown;
+  try {
+    policy = JSON.parse(json);
+  } catch (e) {
+    logger.error("❌ Invalid cadence policy JSON. Using defaults.", {
+      error: e,
+    });
+    return {};
+  }
+  const problem = validateCadencePolicy(policy);
+  if (problem) {
+    logger.error("❌ Invalid cadence policy. Using defaults.", { problem });
+    return {};
+  }
+  return policy as CadencePolicy;
+}
+
+/**
+ * Checks a user's cadence overrides, e.g. `settings.cadence_overrides`.
+ * @param overrides The user's overrides, if any.
+ * @returns The overrides, or null if missing or invalid, so the policy applies.
+ */
+export function resolveCadenceOverrides(
+  overrides: unknown,
+): CadencePolicy | null {
+  if (overrides == null) return null;
+  const problem = validateCadencePolicy(overrides);
+  if (problem) {
+    logger.warn("⚠️ Invalid cadence overrides. Using the policy.", {
+      problem,
+    });
+    return null;
+  }
+  return overrides as CadencePolicy;
+}
+
+/**
+ * Checks the shape and values of a cadence policy: a list of windows per
+ * notification type, each with whole-day bounds in order and a repeat interval
+ * of at least one day.
+ * @param policy The policy to check, e.g. parsed JSON.
+ * @returns The first problem found, or null if the policy is valid.
+ */
+export function validateCadencePolicy(policy: unknown): string | null {
+  if (!isPlainObject(policy)) {
+    return "policy must be an object";
+  }
+  for (const [type, windows] of Object.entries(policy)) {
+    if (!CADENCE_TYPES.has(type)) {
+      return `unknown notification type "${type}"`;
+    }
+    if (!Array.isArray(windows)) {
+      return `${type} must be a list of windows`;
+    }
+    for (const [index, window] of windows.entries()) {
+      const problem = validateCadenceWindow(window);
+      if (problem) {
+        return `${type}[${index}]: ${problem}`;
+      }
+    }
+  }
+  return null;
+}
+
+function validateCadenceWindow(window: unknown): string | null {
+  if (!isPlainObject(window)) {
+    return "window must be an object";
+  }
+  const unknownField = Object.keys(window).find((field) =>
+    !CADENCE_WINDOW_FIELDS.has(field)
+  );
+  if (unknownField) {
+    return `unknown field "${unknownField}"`;
+  }
+  const { fromDays, toDays, repeatEveryDays } = window;
+  for (const [field, days] of Object.entries({ fromDays, toDays })) {
+    if (days !== undefined && !Number.isInteger(days)) {
+      return `${field} must be a whole number of days`;
+    }
+  }
+  if (
+    fromDays !== undefined && toDays !== undefined &&
+    (fromDays as number) > (toDays as number)
+  ) {
+    return "fromDays must not be greater than toDays";
+  }
+  if (!Number.isInteger(repeatEveryDays) || (repeatEveryDays as number) < 1) {
+    return "repeatEveryDays must be a whole number of at least 1";
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Evaluates reminder cadence policies against the latest sent notification.
+ * Policies are layered per notification type: the built-in defaults, then the
+ * deployment-wide policy, then per-user overrides from settings.
+ */
+export class CadenceScheduler {
+  private policy: CadencePolicy;
+
+  constructor(policy: CadencePolicy = {}) {
+    this.policy = { ...DEFAULT_CADENCE_POLICY, ...policy };
+  }
+
+  /**
+   * Decides whether a reminder should be sent today.
+   * @param notificationType The type of notification.
+   * @param offsetDays Days until the event. Positive for future, 0 for today, negative for past.
+   * @param lastLog The latest sent log of this type for the card, if any.
+   * @param now The current time.
+   * @param timeZone The user's IANA timezone.
+   * @param overrides The user's own cadence overrides, if any.
+   * @returns The decision, including the window that matched the offset.
+   */
+  evaluate(
+    notificationType: NotificationType,
+    offsetDays: number,
+    lastLog: NotificationLog | null,
+    now: Date,
+    timeZone: string,
+    overrides?: CadencePolicy | null,
+  ): CadenceDecision {
+    const windows = overrides?.[notificationType] ??
+      this.policy[notificationType] ?? [];
+    const window =
+      windows.find((w) =>
+        (w.fromDays === undefined || offsetDays >= w.fromDays) &&
+        (w.toDays === undefined || offsetDays <= w.toDays)
+      ) ?? null;
+
+    if (!window) {
+      return { shouldSend: false, window };
+    }
+    if (window.repeatEveryDays <= 1) {
+      return { shouldSend: true, window };
+    }
+    return {
+      shouldSend: !lastLog ||
+        getDaysDifference(new Date(lastLog.sent_at), now, timeZone) >=
+          window.repeatEveryDays,
+      window,
+    };
+  }
+}
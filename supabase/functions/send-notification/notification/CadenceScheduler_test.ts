@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import {
+  CadenceScheduler,
+  DEFAULT_CADENCE_POLICY,
+  parseCadencePolicy,
+  resolveCadenceOverrides,
+  validateCadencePolicy,
+} from "./CadenceScheduler.ts";
+
+const NOW = new Date("2025-06-10T09:00:00Z");
+
+Deno.test("accepts the default cadence policy", () => {
+  assert.equal(validateCadencePolicy(DEFAULT_CADENCE_POLICY), null);
+});
+
+Deno.test("rejects malformed cadence policies", () => {
+  const invalid = [
+    null,
+    [],
+    { due: "x" },
+    { due: [null] },
+    { weekly: [{ repeatEveryDays: 1 }] },
+    { due: [{ repeatEveryDays: 0 }] },
+    { due: [{ repeatEveryDays: -2 }] },
+    { due: [{ repeatEveryDays: 1.5 }] },
+    { due: [{}] },
+    { due: [{ fromDays: "0", repeatEveryDays: 1 }] },
+    { due: [{ fromDays: 5, toDays: 2, repeatEveryDays: 1 }] },
+    { due: [{ fromDay: 0, repeatEveryDays: 1 }] },
+  ];
+  for (const policy of invalid) {
+    assert.notEqual(
+      validateCadencePolicy(policy),
+      null,
+      JSON.stringify(policy),
+    );
+  }
+});
+
+Deno.test("falls back to the defaults for an invalid policy", () => {
+  assert.deepEqual(parseCadencePolicy('{"due":"x"}'), {});
+  assert.deepEqual(parseCadencePolicy("{"), {});
+  assert.deepEqual(
+    parseCadencePolicy('{"due":[{"fromDays":0,"repeatEveryDays":2}]}'),
+    { due: [{ fromDays: 0, repeatEveryDays: 2 }] },
+  );
+});
+
+Deno.test("ignores invalid per-user overrides", () => {
+  assert.equal(resolveCadenceOverrides(null), null);
+  assert.equal(
+    resolveCadenceOverrides({ due: [{ repeatEveryDays: 0 }] }),
+    null,
+  );
+
+  // Without the override, the default daily window applies two days out.
+  const scheduler = new CadenceScheduler();
+  const overrides = resolveCadenceOverrides({ due: "x" });
+  const decision = scheduler.evaluate("due", 2, null, NOW, "UTC", overrides);
+  assert.equal(decision.shouldSend, true);
+  assert.deepEqual(decision.window, DEFAULT_CADENCE_POLICY.due![0]);
+});
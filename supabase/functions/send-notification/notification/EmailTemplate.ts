@@ -0,0 +1,70 @@
+import { DeliveryMessage } from "../services/DeliveryChannel.ts";
+import { NotificationMessageBuilder } from "./NotificationBuilder.ts";
+
+/**
+ * RenderedEmail holds the subject and both bodies of a notification email.
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Renders a notification as an email in the user's language. The title and
+ * body are the same localized strings sent as push notifications.
+ * @param message The message to render.
+ * @param appUrl The base URL of the app, used to link to the message's route.
+ * @returns The email subject with its HTML and plain-text bodies.
+ */
+export function renderEmail(
+  message: DeliveryMessage,
+  appUrl?: string
+): RenderedEmail {
+  const strings = new NotificationMessageBuilder(message.language).emailText();
+  const link = appUrl ? `${appUrl.replace(/\/$/, "")}${message.payload}` : null;
+  const lines = message.body.split("\n");
+
+  const text = [
+    strings.greeting,
+    message.title,
+    message.body,
+    ...(link ? [`${strings.openApp}: ${link}`] : []),
+    `--\n${strings.footer}`,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,sans-serif;color:#1f2933;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <tr><td>
+        <p style="margin:0 0 16px;">${escapeHtml(strings.greeting)}</p>
+        <h2 style="margin:0 0 12px;font-size:18px;">${escapeHtml(message.title)}</h2>
+        ${lines
+          .map(
+            (line) =>
+              `<p style="margin:0 0 8px;line-height:1.5;">${escapeHtml(line)}</p>`
+          )
+          .join("\n        ")}
+        ${
+          link
+            ? `<p style="margin:24px 0 0;"><a href="${escapeHtml(link)}" style="background:#2563eb;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;">${escapeHtml(strings.openApp)}</a></p>`
+            : ""
+        }
+      </td></tr>
+    </table>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#7b8794;">${escapeHtml(strings.footer)}</p>
+  </body>
+</html>`;
+
+  return { subject: message.title, html, text };
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { DeliveryMessage } from "../services/DeliveryChannel.ts";
+import { renderEmail } from "./EmailTemplate.ts";
+
+function message(changes: Partial<DeliveryMessage> = {}): DeliveryMessage {
+  return {
+    title: "Payment due tomorrow",
+    body: "Pay ₹5,000 on Millennia <1234>.\nMinimum due: ₹500 & no late fee.",
+    language: "english",
+    payload: "/card_details/card-1",
+    collapseKey: "due-card-1",
+    notifications: [],
+    ...changes,
+  };
+}
+
+Deno.test("renders the plain-text body with a link to the app", () => {
+  const email = renderEmail(message(), "https://app.example.com/");
+
+  assert.equal(email.subject, "Payment due tomorrow");
+  assert.equal(
+    email.text,
+    [
+      "Hi there,",
+      "Payment due tomorrow",
+      "Pay ₹5,000 on Millennia <1234>.\nMinimum due: ₹500 & no late fee.",
+      "Open the app: https://app.example.com/card_details/card-1",
+      "--\nYou are receiving this email because email reminders are turned on in your notification settings.",
+    ].join("\n\n"),
+  );
+});
+
+Deno.test("renders the HTML body escaped, one paragraph per line", () => {
+  const { html } = renderEmail(message(), "https://app.example.com");
+
+  assert.match(html, /<h2[^>]*>Payment due tomorrow<\/h2>/);
+  assert.match(html, /<p[^>]*>Pay ₹5,000 on Millennia &lt;1234&gt;\.<\/p>/);
+  assert.match(html, /<p[^>]*>Minimum due: ₹500 &amp; no late fee\.<\/p>/);
+  assert.match(
+    html,
+    /<a href="https:\/\/app\.example\.com\/card_details\/card-1"[^>]*>Open the app<\/a>/,
+  );
+  assert.doesNotMatch(html, /<1234>/);
+});
+
+Deno.test("leaves the link out without an app URL", () => {
+  const email = renderEmail(message());
+
+  assert.doesNotMatch(email.text, /Open the app/);
+  assert.doesNotMatch(email.html, /<a /);
+});
+
+Deno.test("renders the template in the message's language", () => {
+  const email = renderEmail(message({ language: "hindi" }));
+
+  assert.match(email.text, /^नमस्ते,/);
+  assert.match(email.html, /ईमेल रिमाइंडर चालू हैं/);
+});
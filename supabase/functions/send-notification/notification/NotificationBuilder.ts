@@ -2,11 +2,16 @@ import { NotificationStrings } from "../../shared/models.ts";
 import { en } from "./lang/en.ts";
 import { hi } from "./lang/hi.ts";
 
+/**
+ * Languages notifications are localized into. Any other language falls back to English.
+ */
+export const SUPPORTED_LANGUAGES = ["english", "hindi"];
+
 export class NotificationMessageBuilder {
   private strings: NotificationStrings;
 
-  constructor(lang: string) {
-    switch (lang.toLowerCase()) {
+  constructor(readonly language: string) {
+    switch (language.toLowerCase()) {
       case "hindi":
         this.strings = hi;
         break;
@@ -30,6 +35,7 @@ export class NotificationMessageBuilder {
     last4Digits: string,
     dueInDays: number,
     remaining: number,
+    minimumDue: number,
     currencyCode: string,
     isAutoDebit?: boolean
   ): { title: string; body: string } {
@@ -38,6 +44,7 @@ export class NotificationMessageBuilder {
       last4Digits,
       dueInDays,
       remaining,
+      minimumDue,
       currencyCode,
       isAutoDebit
     );
@@ -47,6 +54,7 @@ export class NotificationMessageBuilder {
     cardName: string,
     last4Digits: string,
     remaining: number,
+    minimumDue: number,
     currencyCode: string,
     isAutoDebit?: boolean
   ): { title: string; body: string } {
@@ -54,11 +62,45 @@ export class NotificationMessageBuilder {
       cardName,
       last4Digits,
       remaining,
+      minimumDue,
       currencyCode,
       isAutoDebit
     );
   }
 
+  expectedDue(
+    cardName: string,
+    last4Digits: string,
+    dueDate: Date,
+    dueInDays: number
+  ): { title: string; body: string } {
+    return this.strings.expectedDue(cardName, last4Digits, dueDate, dueInDays);
+  }
+
+  graceEnding(
+    cardName: string,
+    last4Digits: string,
+    daysLeft: number
+  ): { title: string; body: string } {
+    return this.strings.graceEnding(cardName, last4Digits, daysLeft);
+  }
+
+  minimumPaid(
+    cardName: string,
+    last4Digits: string,
+    dueInDays: number,
+    remaining: number,
+    currencyCode: string
+  ): { title: string; body: string } {
+    return this.strings.minimumPaid(
+      cardName,
+      last4Digits,
+      dueInDays,
+      remaining,
+      currencyCode
+    );
+  }
+
   partial(
     cardName: string,
     last4Digits: string,
@@ -76,4 +118,32 @@ export class NotificationMessageBuilder {
       isAutoDebit
     );
   }
+
+  utilization(
+    cardName: string,
+    last4Digits: string,
+    utilizationPercent: number,
+    tier: number
+  ): { title: string; body: string } {
+    return this.strings.utilization(
+      cardName,
+      last4Digits,
+      utilizationPercent,
+      tier
+    );
+  }
+
+  digest(
+    items: { title: string; body: string }[]
+  ): { title: string; body: string } {
+    return this.strings.digest(items);
+  }
+
+  testNotification(): { title: string; body: string } {
+    return this.strings.test;
+  }
+
+  emailText(): NotificationStrings["email"] {
+    return this.strings.email;
+  }
 }
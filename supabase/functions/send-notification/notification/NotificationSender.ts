@@ -1,220 +1,928 @@
-import { SupabaseService } from "../../shared/SupabaseService.ts";
-import { FirebaseService } from "../services/FirebaseService.ts";
+import { logger } from "../../shared/logger.ts";
+import {
+  DeliveryChannels,
+  DeliveryMessage,
+  DeliveryResult,
+  FailedDelivery,
+  isInvalidTokenError,
+} from "../services/DeliveryChannel.ts";
 import { NotificationMessageBuilder } from "./NotificationBuilder.ts";
-import { NotificationLog } from "../../shared/models.ts";
-import { getDaysDifference } from "../utils/dateUtils.ts";
+import {
+  CadenceScheduler,
+  resolveCadenceOverrides,
+} from "./CadenceScheduler.ts";
+import {
+  CadenceWindow,
+  Card,
+  DeliveryChannelType,
+  NotificationDelivery,
+  NotificationDetails,
+  NotificationLog,
+  NotificationMode,
+  NotificationType,
+  PendingNotification,
+  SkipReason,
+  UserNotificationData,
+} from "../../shared/models.ts";
+import {
+  addDays,
+  DEFAULT_TIMEZONE,
+  getBillingCycleDates,
+  getDaysDifference,
+  getLocalDate,
+  getLocalDateTime,
+} from "../utils/dateUtils.ts";
+import { isSnoozed, isWithinQuietHours } from "../utils/scheduleUtils.ts";
+import {
+  getUtilizationPercent,
+  getUtilizationTier,
+} from "../utils/utilizationUtils.ts";
+
+/**
+ * Days before the expected due date from which the grace-period warning replaces
+ * the expected due reminder.
+ */
+const GRACE_WARNING_DAYS = 3;
+
+/**
+ * Order of notification types in a digest, most urgent first.
+ */
+const DIGEST_ORDER: NotificationType[] = [
+  "overdue",
+  "due",
+  "partial",
+  "utilization",
+  "billing",
+];
+
+/**
+ * A channel bound to the user's recipients on it.
+ */
+interface DeliveryTarget {
+  channel: DeliveryChannelType;
+  send: (message: DeliveryMessage) => Promise<DeliveryResult[]>;
+  // Resolves the platform recorded for a recipient, e.g. a device's OS
+  platformOf: (recipient: string) => string | null;
+}
+
+/**
+ * A delivery record that is not yet attached to a notification log.
+ */
+type DeliveryRecord = Omit<NotificationDelivery, "log_id">;
+
+/**
+ * NotificationTrigger describes the rule behind a notification decision.
+ */
+export type NotificationTrigger =
+  | {
+    // The cadence window matching the days until the event, if any
+    rule: "cadence";
+    offsetDays: number;
+    window: CadenceWindow | null;
+    lastSentAt: string | null;
+  }
+  | {
+    // The last days of the grace period of a statement without a payment,
+    // repeated on the due cadence
+    rule: "grace_ending";
+    offsetDays: number;
+    window: CadenceWindow | null;
+    lastSentAt: string | null;
+  }
+  | {
+    // Partial payment alerts repeat only when the paid amount changes
+    rule: "payment_changed";
+    lastSentAt: string | null;
+  }
+  | {
+    // Utilization alerts fire when escalating into a higher tier
+    rule: "utilization_tier";
+    utilizationPercent: number;
+    tier: number;
+    alertedTier: number;
+  };
+
+/**
+ * PreviewedNotification is a notification a dry run decided on, with the rule
+ * that triggered it.
+ */
+export interface PreviewedNotification extends PendingNotification {
+  trigger: NotificationTrigger;
+}
+
+/**
+ * NotificationPreview describes what a user would receive, without anything
+ * being sent or recorded.
+ */
+export interface NotificationPreview {
+  userId: string;
+  // The user's local date the notifications are decided for
+  localDate: string;
+  language: string;
+  mode: NotificationMode;
+  // Channels the notifications would be delivered through
+  channels: DeliveryChannelType[];
+  // The notifications that would be sent
+  notifications: PreviewedNotification[];
+  // The summary sent instead, when the notifications go out as a digest
+  digest: { title: string; body: string } | null;
+  // The notifications that would be held back, with the reason
+  skipped: (PreviewedNotification & { skipReason: SkipReason })[];
+}
+
+/**
+ * A notification that was decided on, with the rule that triggered it.
+ */
+interface PlannedNotification {
+  notification: PendingNotification;
+  trigger: NotificationTrigger;
+}
+
+/**
+ * Everything decided for a user before notifications are deduplicated and
+ * delivered. Planning has no side effects, so it also backs dry runs.
+ */
+interface NotificationPlan {
+  builder: NotificationMessageBuilder;
+  // The user's local date, in "YYYY-MM-DD" format
+  localDate: string;
+  timeZone: string;
+  targets: DeliveryTarget[];
+  pending: PlannedNotification[];
+  skipped: (PlannedNotification & { reason: SkipReason })[];
+  // Utilization alert tier to record per card ID
+  tierUpdates: Map<string, number>;
+}
+
+/**
+ * The user a message is delivered to, with their local date and timezone.
+ */
+type DeliveryUser = Pick<FailedDelivery, "userId" | "localDate" | "timeZone">;
+
+/**
+ * PreparedNotifications is a user's plan, to be delivered once the dedupe keys
+ * of its pending notifications are claimed.
+ */
+export interface PreparedNotifications {
+  userId: string;
+  data: UserNotificationData;
+  plan: NotificationPlan;
+  // Dedupe key per pending notification, in the same order
+  dedupeKeys: string[];
+}
 
 export class NotificationSender {
+  /**
+   * Creates an instance of NotificationSender.
+   * @param channels The channels notifications are delivered through.
+   * @param cadenceScheduler Decides when reminders repeat.
+   * @param clock Returns the current time, e.g. a frozen date in tests.
+   */
   constructor(
-    private supabaseService: SupabaseService,
-    private firebaseService: FirebaseService,
+    private channels: DeliveryChannels,
+    private cadenceScheduler: CadenceScheduler,
+    private clock: () => Date = () => new Date(),
   ) {}
 
-  async processUserNotifications(
+  /**
+   * Decides which notifications a user receives today and logs the ones held
+   * back. The rest are delivered by `sendUserNotifications` once their dedupe
+   * keys are claimed, which a run does for a whole page of users at once.
+   * @param userId The ID of the user.
+   * @param data The user's prefetched settings, cards, payments, recipients and latest logs.
+   * @param now The current time.
+   * @param logs Collects a log entry per notification held back.
+   * @returns The user's pending notifications, with their dedupe keys.
+   */
+  prepareUserNotifications(
     userId: string,
+    data: UserNotificationData,
+    now: Date,
+    logs: NotificationLog[],
+  ): PreparedNotifications {
+    const plan = this.planNotifications(data, now);
+    for (const { notification, reason } of plan.skipped) {
+      logs.push(toSkippedLog(userId, notification, reason, now));
+    }
+    return {
+      userId,
+      data,
+      plan,
+      dedupeKeys: plan.pending.map(({ notification }) =>
+        getDedupeKey(userId, notification, plan.localDate)
+      ),
+    };
+  }
+
+  /**
+   * Delivers a user's prepared notifications. At most one notification of each
+   * type per card goes out per local day, even if the user is processed again,
+   * e.g. by an overlapping or retried run: notifications whose dedupe key this
+   * run didn't claim are logged as duplicates instead, as are notifications
+   * sharing a key with one before them, e.g. for two unpaid payments of a card.
+   * @param prepared The user's prepared notifications.
+   * @param claimedKeys The dedupe keys this run claimed.
+   * @param now The current time.
+   * @param logs Collects a log entry per notification decision.
+   * @param failedTokens Collects device tokens that are no longer valid.
+   * @param failures Collects failed deliveries, to be queued for retry.
+   * @param tierUpdates Collects the utilization alert tier to record per card ID.
+   */
+  async sendUserNotifications(
+    { userId, data, plan, dedupeKeys }: PreparedNotifications,
+    claimedKeys: Set<string>,
     now: Date,
     logs: NotificationLog[],
     failedTokens: string[],
+    failures: FailedDelivery[],
+    tierUpdates: Map<string, number>,
   ): Promise<void> {
-    // Fetch all necessary data in parallel to minimize latency.
-    const [userSetting, tokens, payments, cards] = await Promise.all([
-      this.supabaseService.getUserSetting(userId),
-      this.supabaseService.getDeviceTokens(userId),
-      this.supabaseService.getUserPayments(userId),
-      this.supabaseService.getUserCards(userId),
-    ]);
-
-    if (!userSetting || !tokens.length) {
+    const { builder, targets, pending } = plan;
+    const user: DeliveryUser = {
+      userId,
+      localDate: plan.localDate,
+      timeZone: plan.timeZone,
+    };
+    const deliverable: PendingNotification[] = [];
+    const usedKeys = new Set<string>();
+    for (const [index, { notification }] of pending.entries()) {
+      const key = dedupeKeys[index];
+      if (claimedKeys.has(key) && !usedKeys.has(key)) {
+        usedKeys.add(key);
+        deliverable.push(notification);
+      } else {
+        logs.push(toSkippedLog(userId, notification, "duplicate", now));
+      }
+    }
+
+    // Dropping to a lower tier re-arms the alert for when it is crossed again.
+    // A raised tier is only recorded with its alert going out, so an alert
+    // that was held back, e.g. for lack of recipients, is raised again later.
+    const alertedCardIds = new Set(
+      deliverable.filter((n) => n.type === "utilization").map((n) => n.cardId),
+    );
+    for (const [cardId, tier] of plan.tierUpdates) {
+      const card = data.cards.find((c) => c.id === cardId);
+      if (
+        tier < (card?.utilization_alert_tier ?? 0) || alertedCardIds.has(cardId)
+      ) {
+        tierUpdates.set(cardId, tier);
+      }
+    }
+
+    if (
+      data.setting.notification_mode === "digest" && deliverable.length > 1
+    ) {
+      await this.sendDigest(
+        user,
+        now,
+        builder,
+        deliverable,
+        targets,
+        logs,
+        failedTokens,
+        failures,
+      );
       return;
     }
+    for (const notification of deliverable) {
+      const deliveries = await this.deliver(
+        user,
+        {
+          title: notification.title,
+          body: notification.body,
+          language: builder.language,
+          payload: notification.payload,
+          collapseKey: `${notification.type}-${notification.cardId}`,
+          notifications: [notification],
+        },
+        targets,
+        failedTokens,
+        failures,
+      );
+      logs.push(toNotificationLog(userId, notification, now, deliveries));
+    }
+  }
+
+  /**
+   * Decides which notifications a user would receive, without delivering or
+   * recording anything. Dedupe keys are not checked, so notifications already
+   * sent today are listed again.
+   * @param userId The ID of the user.
+   * @param data The user's settings, cards, payments, recipients and latest logs.
+   * @param now The time to decide for, e.g. a simulated date.
+   * @returns The notifications that would be sent and held back, with their triggers.
+   */
+  previewUserNotifications(
+    userId: string,
+    data: UserNotificationData,
+    now: Date,
+  ): NotificationPreview {
+    const { builder, localDate, targets, pending, skipped } = this
+      .planNotifications(data, now);
+    const mode = data.setting.notification_mode ?? "individual";
+    const notifications = pending.map(({ notification, trigger }) => ({
+      ...notification,
+      trigger,
+    }));
+    return {
+      userId,
+      localDate,
+      language: builder.language,
+      mode,
+      channels: targets.map((t) => t.channel),
+      notifications,
+      digest: mode === "digest" && notifications.length > 1
+        ? builder.digest(sortForDigest(notifications))
+        : null,
+      skipped: skipped.map(({ notification, trigger, reason }) => ({
+        ...notification,
+        trigger,
+        skipReason: reason,
+      })),
+    };
+  }
+
+  /**
+   * Decides which of a user's notifications are due and which are held back by
+   * cadence, unchanged payments, do-not-disturb or missing recipients.
+   * @param data The user's settings, cards, payments, recipients and latest logs.
+   * @param now The current time.
+   * @returns The plan for the user's notifications.
+   */
+  private planNotifications(
+    data: UserNotificationData,
+    now: Date,
+  ): NotificationPlan {
+    const { setting: userSetting, payments, latestPayments, cards } = data;
+    const targets = this.getDeliveryTargets(data);
+    const getLastLog = (cardId: string, type: NotificationType) =>
+      data.lastLogs.find((l) =>
+        l.card_id === cardId && l.notification_type === type
+      ) ?? null;
 
     const lang = userSetting.language;
     const currency = userSetting.currency;
     const builder = new NotificationMessageBuilder(lang);
+    // Day-difference math is evaluated against the user's local calendar day.
+    const timeZone = userSetting.timezone || DEFAULT_TIMEZONE;
+    const today = getLocalDate(now, timeZone);
+    // Invalid overrides fall back to the deployment-wide policy.
+    const cadenceOverrides = resolveCadenceOverrides(
+      userSetting.cadence_overrides,
+    );
+
+    // Do-not-disturb: quiet hours and snoozes hold back every alert except,
+    // when the user allows it, overdue ones.
+    const localNow = getLocalDateTime(now, timeZone);
+    const isQuietHours = isWithinQuietHours(
+      localNow.time,
+      userSetting.quiet_hours_start,
+      userSetting.quiet_hours_end,
+    );
+    const getSilenceReason = (
+      card: Card,
+      type: NotificationType,
+    ): SkipReason | null => {
+      if (type === "overdue" && userSetting.dnd_allow_overdue) return null;
+      if (isQuietHours) return "quiet_hours";
+      return isSnoozed(userSetting.snooze_until, localNow.date) ||
+          isSnoozed(card.snooze_until, localNow.date)
+        ? "snoozed"
+        : null;
+    };
+
+    // Collected first, then checked against do-not-disturb. Notifications
+    // held back are kept with the reason, to be logged as skipped.
+    const due: PlannedNotification[] = [];
+    const skipped: NotificationPlan["skipped"] = [];
+    const tierUpdates = new Map<string, number>();
+    const queue = (
+      notification: Omit<PendingNotification, "id">,
+      trigger: NotificationTrigger,
+      reason: SkipReason | null = null,
+    ) => {
+      const planned = {
+        notification: { ...notification, id: crypto.randomUUID() },
+        trigger,
+      };
+      if (reason) {
+        skipped.push({ ...planned, reason });
+      } else {
+        due.push(planned);
+      }
+    };
+    const queueIfDue = (
+      notification: Omit<PendingNotification, "id">,
+      offsetDays: number,
+      rule: "cadence" | "grace_ending" = "cadence",
+    ) => {
+      const lastLog = getLastLog(notification.cardId, notification.type);
+      const { shouldSend, window } = this.cadenceScheduler.evaluate(
+        notification.type,
+        offsetDays,
+        lastLog,
+        now,
+        timeZone,
+        cadenceOverrides,
+      );
+      queue(notification, {
+        rule,
+        offsetDays,
+        window,
+        lastSentAt: lastLog?.sent_at ?? null,
+      }, shouldSend ? null : "cadence");
+    };
 
     for (const payment of payments) {
       const card = payment.cards;
-      const remaining = payment.statement_amount;
+      const paidAmount = payment.paid_amount ?? 0;
+      const remaining = payment.statement_amount - paidAmount;
+      if (remaining <= 0) {
+        continue; // Fully paid, just not marked as paid yet
+      }
+      const minimumDue = payment.minimum_due_amount ?? 0;
+      const isMinimumPaid = minimumDue > 0 && paidAmount >= minimumDue;
+      const minimumRemaining = Math.max(minimumDue - paidAmount, 0);
       const dueDate = new Date(payment.due_date);
       const payload = `/card_details/${card.id}`;
+      const details: NotificationDetails = {
+        last4Digits: card.last_4_digits,
+        currency,
+        remaining,
+        minimumDue: minimumRemaining,
+        paid: paidAmount,
+        dueDate: payment.due_date.slice(0, 10),
+      };
       // Calculate days until due date. Positive for future, 0 for today, negative for past.
-      const diffDaysDue = getDaysDifference(now, dueDate);
+      const diffDaysDue = getDaysDifference(today, dueDate);
 
-      // --- ⏰  Due Reminder ---
-      if (diffDaysDue === 0) {
-        // Due Today
-        const msg = builder.dueReminder(
-          card.name,
-          card.last_4_digits,
-          diffDaysDue,
-          remaining,
-          currency,
-          // pass auto-debit flag if available
-          Boolean(card.is_auto_debit_enabled),
-        );
-        await this.firebaseService.sendNotification(
-          userId,
-          card.id,
-          "due",
-          msg.title,
-          msg.body,
-          payload,
-          tokens,
-          logs,
-          failedTokens,
-        );
-      } else if (diffDaysDue > 0) {
-        // Due in the future
-        let shouldSendDue = false;
-        if (diffDaysDue <= 5) {
-          // Always send if due in 5 days or less (including today/tomorrow).
-          shouldSendDue = true;
-        } else {
-          const lastLog = await this.supabaseService.getLastNotificationLog(
-            userId,
-            card.id,
-            "due",
+      const buildDueMessage = () => {
+        if (isMinimumPaid) {
+          // No late fee once the minimum is covered, so nudge towards clearing
+          // the full balance instead.
+          return builder.minimumPaid(
+            card.name,
+            card.last_4_digits,
+            diffDaysDue,
+            remaining,
+            currency,
           );
-          if (!lastLog) {
-            shouldSendDue = true; // Send if no previous due log
-          } else {
-            const daysSinceLastSend = getDaysDifference(
-              new Date(lastLog.sent_at),
-              now,
-            );
-            // More than 5 days out, send every 3 days.
-            shouldSendDue = daysSinceLastSend >= 3;
-          }
         }
-
-        if (shouldSendDue) {
-          const msg = builder.dueReminder(
+        return diffDaysDue >= 0
+          ? builder.dueReminder(
             card.name,
             card.last_4_digits,
             diffDaysDue,
             remaining,
+            minimumRemaining,
             currency,
+            // pass auto-debit flag if available
             Boolean(card.is_auto_debit_enabled),
-          );
-          await this.firebaseService.sendNotification(
-            userId,
-            card.id,
-            "due",
-            msg.title,
-            msg.body,
-            payload,
-            tokens,
-            logs,
-            failedTokens,
-          );
-        }
-      } else {
-        // -- ⚠️ Overdue Reminder ---
-        const daysOverdue = Math.abs(diffDaysDue);
-        let shouldSendOverdue = false;
-        if (daysOverdue <= 7) {
-          // Overdue for 7 days or less, send every day.
-          shouldSendOverdue = true;
-        } else {
-          const lastLog = await this.supabaseService.getLastNotificationLog(
-            userId,
-            card.id,
-            "overdue",
-          );
-          if (!lastLog) {
-            // Always send if record not available for overdue reminder.
-            shouldSendOverdue = true;
-          } else {
-            const daysSinceLastSend = getDaysDifference(
-              new Date(lastLog.sent_at),
-              now,
-            );
-            // Overdue for more than 7 days, send once every 3 days.
-            shouldSendOverdue = daysSinceLastSend >= 3;
-          }
-        }
-
-        if (shouldSendOverdue) {
-          const msg = builder.overdue(
+          )
+          : builder.overdue(
             card.name,
             card.last_4_digits,
             remaining,
+            minimumRemaining,
             currency,
             Boolean(card.is_auto_debit_enabled),
           );
-          await this.firebaseService.sendNotification(
-            userId,
-            card.id,
-            "overdue",
-            msg.title,
-            msg.body,
-            payload,
-            tokens,
-            logs,
-            failedTokens,
-          );
-        }
-      }
+      };
+
+      // --- ⏰ Due / ⚠️ Overdue Reminder ---
+      queueIfDue({
+        cardId: card.id,
+        type: diffDaysDue >= 0 ? "due" : "overdue",
+        ...buildDueMessage(),
+        payload: payload,
+        details,
+      }, diffDaysDue);
 
       // --- 💸 Partial Payment ---
-      // AG TODO: Notification for partial payments
+      if (paidAmount > 0) {
+        const msg = builder.partial(
+          card.name,
+          card.last_4_digits,
+          paidAmount,
+          remaining,
+          currency,
+          Boolean(card.is_auto_debit_enabled),
+        );
+        const lastLog = getLastLog(card.id, "partial");
+        // Repeated once more is paid since the last alert. Logs from before
+        // the paid amount was recorded are compared by their body, which
+        // carries the paid and remaining amounts.
+        const isUnchanged = lastLog !== null &&
+          (lastLog.paid_amount === null
+            ? lastLog.body === msg.body
+            : lastLog.paid_amount === paidAmount);
+        const notification = {
+          cardId: card.id,
+          type: "partial" as const,
+          ...msg,
+          payload: payload,
+          details,
+        };
+        queue(
+          notification,
+          { rule: "payment_changed", lastSentAt: lastLog?.sent_at ?? null },
+          isUnchanged ? "unchanged" : null,
+        );
+      }
     }
 
-    // --- 📅 Billing Reminder ---
     for (const card of cards) {
+      // --- 📊 Utilization Alert ---
+      const utilizationPercent = getUtilizationPercent(
+        card.current_utilization,
+        card.credit_limit,
+      );
+      // Held back while silenced, so the tier isn't marked as alerted.
+      if (
+        utilizationPercent !== null && !getSilenceReason(card, "utilization")
+      ) {
+        const tier = getUtilizationTier(
+          utilizationPercent,
+          userSetting.utilization_alert_threshold,
+        );
+        const alertedTier = card.utilization_alert_tier ?? 0;
+        if (tier > alertedTier) {
+          // Only alert when escalating into a higher tier.
+          const msg = builder.utilization(
+            card.name,
+            card.last_4_digits,
+            utilizationPercent,
+            tier,
+          );
+          queue({
+            cardId: card.id,
+            type: "utilization",
+            ...msg,
+            payload: `/card_details/${card.id}`,
+            details: { last4Digits: card.last_4_digits, currency },
+          }, {
+            rule: "utilization_tier",
+            utilizationPercent,
+            tier,
+            alertedTier,
+          });
+        }
+        if (tier !== alertedTier) {
+          tierUpdates.set(card.id, tier);
+        }
+      }
+
+      // --- 📅 Billing Reminder ---
       // Skip billing notifications for cards that already have an unpaid payment
       const hasUnpaidPayment = payments.some((p) => p.cards?.id === card.id);
       if (hasUnpaidPayment) {
         continue;
       }
 
-      const billingDate = new Date(card.billing_date);
-      const diffDaysBilling = getDaysDifference(now, billingDate);
-      let shouldSendBilling = false;
+      // The billing date recurs monthly, so work with the cycle dates around today.
+      const { previous, next } = getBillingCycleDates(
+        new Date(card.billing_date),
+        today,
+      );
 
-      if (diffDaysBilling === 0) {
-        shouldSendBilling = true; // Always send on billing day
-      } else {
-        if (Math.abs(diffDaysBilling) <= 3) {
-          shouldSendBilling = true; // Every day for 3 days before/after billing
-        } else {
-          const lastLog = await this.supabaseService.getLastNotificationLog(
-            userId,
-            card.id,
-            "billing",
-          );
+      // --- 🗓️ Expected Due Reminder ---
+      // The statement is out but no payment has been logged for it yet, so
+      // derive the due date from the card's grace period. A payment due on or
+      // after the statement date belongs to the current cycle, paid or not.
+      // On the billing day itself, the statement is the one generated today.
+      const statementDate = getDaysDifference(today, next) === 0
+        ? next
+        : previous;
+      const graceDays = card.due_grace_period_days;
+      const latestPayment = latestPayments.find((p) => p.card_id === card.id);
+      const hasCyclePayment = latestPayment != null &&
+        getDaysDifference(statementDate, new Date(latestPayment.due_date)) >= 0;
+      if (graceDays != null && !hasCyclePayment) {
+        const expectedDueDate = addDays(statementDate, graceDays);
+        const diffDaysExpectedDue = getDaysDifference(today, expectedDueDate);
 
-          if (!lastLog) {
-            shouldSendBilling = true; // Send first reminder if no log exists
-          } else {
-            const daysSinceLastSend = getDaysDifference(
-              new Date(lastLog.sent_at),
-              now,
+        if (diffDaysExpectedDue >= 0) {
+          // The last days of the grace period get a warning instead, as late
+          // fees apply once it ends. It is still a due reminder: nothing is
+          // overdue yet.
+          const isGraceEnding = diffDaysExpectedDue <= GRACE_WARNING_DAYS;
+          const msg = isGraceEnding
+            ? builder.graceEnding(
+              card.name,
+              card.last_4_digits,
+              diffDaysExpectedDue,
+            )
+            : builder.expectedDue(
+              card.name,
+              card.last_4_digits,
+              expectedDueDate,
+              diffDaysExpectedDue,
             );
-
-            shouldSendBilling = daysSinceLastSend >= 3; // Once in 3 days
-          }
+          queueIfDue(
+            {
+              cardId: card.id,
+              type: "due",
+              ...msg,
+              payload: `/cards/${card.id}`,
+              details: {
+                last4Digits: card.last_4_digits,
+                currency,
+                dueDate: expectedDueDate.toISOString().slice(0, 10),
+              },
+            },
+            diffDaysExpectedDue,
+            isGraceEnding ? "grace_ending" : "cadence",
+          );
+          continue;
         }
       }
 
-      if (shouldSendBilling) {
-        const msg = builder.billingReminder(
-          card.name,
-          card.last_4_digits,
-          diffDaysBilling,
-        );
-        await this.firebaseService.sendNotification(
-          userId,
-          card.id,
-          "billing",
-          msg.title,
-          msg.body,
-          `/cards/${card.id}`,
-          tokens,
-          logs,
-          failedTokens,
-        );
+      // Refer to the closer cycle date, preferring the upcoming one on ties.
+      const daysUntilNext = getDaysDifference(today, next);
+      const diffDaysBilling =
+        daysUntilNext <= getDaysDifference(previous, today)
+          ? daysUntilNext
+          : getDaysDifference(today, previous);
+
+      const msg = builder.billingReminder(
+        card.name,
+        card.last_4_digits,
+        diffDaysBilling,
+      );
+      queueIfDue({
+        cardId: card.id,
+        type: "billing",
+        ...msg,
+        payload: `/cards/${card.id}`,
+        details: { last4Digits: card.last_4_digits, currency },
+      }, diffDaysBilling);
+    }
+
+    const cardsById = new Map<string, Card>(
+      [...cards, ...payments.map((p) => p.cards)].map((c) => [c.id, c]),
+    );
+    const pending: PlannedNotification[] = [];
+    for (const planned of due) {
+      const { cardId, type } = planned.notification;
+      const card = cardsById.get(cardId);
+      const reason = !targets.length
+        ? "no_recipients"
+        : card && getSilenceReason(card, type);
+      if (reason) {
+        skipped.push({ ...planned, reason });
+      } else {
+        pending.push(planned);
+      }
+    }
+
+    return {
+      builder,
+      localDate: localNow.date,
+      timeZone,
+      targets,
+      pending,
+      skipped,
+      tierUpdates,
+    };
+  }
+
+  /**
+   * Resolves where a user's notifications go: each of their preferred channels
+   * that is configured, initialized and has at least one recipient.
+   * @param data The user's settings, device tokens, email address and webhook endpoints.
+   * @returns The channels to deliver through, with their recipients.
+   */
+  private getDeliveryTargets(
+    { setting, tokens, email: address, webhookEndpoints: endpoints }:
+      UserNotificationData,
+  ): DeliveryTarget[] {
+    const preferred = setting.notification_channels?.length
+      ? setting.notification_channels
+      : ["push"];
+    const { push, email, webhook } = this.channels;
+    const targets: DeliveryTarget[] = [];
+
+    if (push?.isInitialized() && preferred.includes("push") && tokens.length) {
+      const platforms = new Map(
+        tokens.map((t) => [t.device_token, t.platform]),
+      );
+      targets.push({
+        channel: "push",
+        send: (message) => push.send(message, [...platforms.keys()]),
+        platformOf: (token) => platforms.get(token) ?? null,
+      });
+    }
+    if (email?.isInitialized() && preferred.includes("email") && address) {
+      targets.push({
+        channel: "email",
+        send: (message) => email.send(message, [address]),
+        platformOf: () => null,
+      });
+    }
+    if (
+      webhook?.isInitialized() && preferred.includes("webhook") &&
+      endpoints.length
+    ) {
+      targets.push({
+        channel: "webhook",
+        send: (message) => webhook.send(message, endpoints),
+        platformOf: (id) => endpoints.find((e) => e.id === id)?.format ?? null,
+      });
+    }
+    return targets;
+  }
+
+  /**
+   * Sends all of a user's pending notifications as one summarized message, most urgent first.
+   * Each underlying card notification is still logged individually.
+   * @param user The user, with their local date and timezone.
+   * @param now The current time.
+   * @param builder The message builder for the user's language.
+   * @param pending The notifications to summarize.
+   * @param targets The channels to deliver through, with their recipients.
+   * @param logs Collects a log entry per underlying notification.
+   * @param failedTokens Collects device tokens that are no longer valid.
+   * @param failures Collects failed deliveries, to be queued for retry.
+   */
+  private async sendDigest(
+    user: DeliveryUser,
+    now: Date,
+    builder: NotificationMessageBuilder,
+    pending: PendingNotification[],
+    targets: DeliveryTarget[],
+    logs: NotificationLog[],
+    failedTokens: string[],
+    failures: FailedDelivery[],
+  ): Promise<void> {
+    const items = sortForDigest(pending);
+    const msg = builder.digest(items);
+    const deliveries = await this.deliver(
+      user,
+      {
+        ...msg,
+        language: builder.language,
+        payload: "/overview",
+        collapseKey: `digest-${user.userId}`,
+        notifications: items,
+      },
+      targets,
+      failedTokens,
+      failures,
+    );
+    logs.push(
+      ...items.map((item) =>
+        toNotificationLog(user.userId, item, now, deliveries)
+      ),
+    );
+  }
+
+  /**
+   * Delivers a message through each of a user's channels, collecting invalid device
+   * tokens and failed deliveries.
+   * @param user The user, with their local date and timezone.
+   * @param message The message to deliver.
+   * @param targets The channels to deliver through, with their recipients.
+   * @param failedTokens Collects device tokens that are no longer valid.
+   * @param failures Collects failed deliveries, to be queued for retry.
+   * @returns A delivery record per recipient.
+   */
+  private async deliver(
+    user: DeliveryUser,
+    message: DeliveryMessage,
+    targets: DeliveryTarget[],
+    failedTokens: string[],
+    failures: FailedDelivery[],
+  ): Promise<DeliveryRecord[]> {
+    const deliveries: DeliveryRecord[] = [];
+    const attemptedAt = this.clock().toISOString();
+    for (const { channel, send, platformOf } of targets) {
+      for (const result of await send(message)) {
+        const isStaleToken = channel === "push" &&
+          isInvalidTokenError(result.errorCode);
+        deliveries.push({
+          channel,
+          recipient: result.recipient,
+          platform: platformOf(result.recipient),
+          status: result.success
+            ? "delivered"
+            : isStaleToken
+            ? "token_removed"
+            : "failed",
+          error_code: result.errorCode ?? null,
+          attempted_at: attemptedAt,
+        });
+        if (result.success) continue;
+
+        logger.warn("Failed to deliver notification", {
+          channel,
+          recipient: result.recipient,
+          logIds: message.notifications.map((notification) => notification.id),
+          errorCode: result.errorCode,
+        });
+        if (isStaleToken) {
+          failedTokens.push(result.recipient);
+        }
+        failures.push({
+          ...user,
+          channel,
+          recipient: result.recipient,
+          message,
+          errorCode: result.errorCode,
+        });
       }
     }
+    return deliveries;
   }
 }
+
+/**
+ * Orders notifications for a digest, most urgent first.
+ * @param notifications The notifications to summarize.
+ * @returns The notifications in digest order.
+ */
+function sortForDigest<T extends PendingNotification>(notifications: T[]): T[] {
+  return [...notifications].sort(
+    (a, b) => DIGEST_ORDER.indexOf(a.type) - DIGEST_ORDER.indexOf(b.type),
+  );
+}
+
+/**
+ * Builds the key that identifies a notification of a type for a card on a
+ * user's local day.
+ * @param userId The ID of the user.
+ * @param notification The notification.
+ * @param localDate The user's local date, in "YYYY-MM-DD" format.
+ * @returns The dedupe key.
+ */
+function getDedupeKey(
+  userId: string,
+  notification: PendingNotification,
+  localDate: string,
+): string {
+  return `${userId}:${notification.cardId}:${notification.type}:${localDate}`;
+}
+
+/**
+ * Creates the log entry for a notification that was sent to the user's channels.
+ * @param userId The ID of the user.
+ * @param notification The notification.
+ * @param sentAt The time it was sent.
+ * @param deliveries The outcome of each delivery.
+ * @returns The notification log entry, sent if any delivery succeeded.
+ */
+function toNotificationLog(
+  userId: string,
+  notification: PendingNotification,
+  sentAt: Date,
+  deliveries: DeliveryRecord[],
+): NotificationLog {
+  const isSent = deliveries.some((d) => d.status === "delivered");
+  return {
+    ...toLogRow(userId, notification, sentAt),
+    status: isSent ? "sent" : "failed",
+    error_code: isSent ? null : deliveries[0]?.error_code ?? null,
+    skip_reason: null,
+    deliveries: deliveries.map((d) => ({ ...d, log_id: notification.id })),
+  };
+}
+
+/**
+ * Creates the log entry for a notification that was held back.
+ * @param userId The ID of the user.
+ * @param notification The notification.
+ * @param reason Why it was held back.
+ * @param decidedAt The time of the decision.
+ * @returns The notification log entry.
+ */
+function toSkippedLog(
+  userId: string,
+  notification: PendingNotification,
+  reason: SkipReason,
+  decidedAt: Date,
+): NotificationLog {
+  return {
+    ...toLogRow(userId, notification, decidedAt),
+    status: "skipped",
+    error_code: null,
+    skip_reason: reason,
+  };
+}
+
+function toLogRow(
+  userId: string,
+  notification: PendingNotification,
+  at: Date,
+) {
+  return {
+    id: notification.id,
+    user_id: userId,
+    card_id: notification.cardId,
+    notification_type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    payload: notification.payload,
+    paid_amount: notification.details.paid ?? null,
+    sent_at: at.toISOString(),
+  };
+}
@@ -0,0 +1,216 @@
+import { DataRepository } from "../../shared/DataRepository.ts";
+import { OutboxEntry } from "../../shared/models.ts";
+import { logger } from "../../shared/logger.ts";
+import { getLocalDateTime } from "../utils/dateUtils.ts";
+import {
+  DeliveryChannels,
+  DeliveryResult,
+  FailedDelivery,
+  isInvalidTokenError,
+  isRetryableError,
+} from "../services/DeliveryChannel.ts";
+
+/**
+ * OutboxPolicy controls how failed deliveries are retried.
+ */
+export interface OutboxPolicy {
+  // Attempts per delivery, including the original one, before it is dead-lettered
+  maxAttempts: number;
+  // Delay before the first retry, doubled for each retry after it
+  baseDelayMs: number;
+  // Upper bound for the delay between retries
+  maxDelayMs: number;
+  // Entries retried per run
+  batchSize: number;
+}
+
+export const DEFAULT_OUTBOX_POLICY: OutboxPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000 * 60 * 5,
+  maxDelayMs: 1000 * 60 * 60 * 6,
+  batchSize: 100,
+};
+
+/**
+ * Queues failed deliveries and retries them on later runs with exponential
+ * backoff. Deliveries that keep failing, fail permanently, or are still
+ * pending after the user's local date has passed, are marked dead.
+ */
+export class OutboxProcessor {
+  private policy: OutboxPolicy;
+
+  constructor(
+    private repository: DataRepository,
+    private channels: DeliveryChannels,
+    policy: Partial<OutboxPolicy> = {},
+  ) {
+    this.policy = { ...DEFAULT_OUTBOX_POLICY, ...policy };
+  }
+
+  /**
+   * Calculates when the next attempt of a delivery is due.
+   * @param attempts The attempts made so far.
+   * @param now The time of the last attempt.
+   * @returns The time of the next attempt.
+   */
+  getNextRetryAt(attempts: number, now: Date): Date {
+    const delay = Math.min(
+      this.policy.baseDelayMs * 2 ** Math.max(attempts - 1, 0),
+      this.policy.maxDelayMs,
+    );
+    return new Date(now.getTime() + delay);
+  }
+
+  /**
+   * Queues the retryable failures of a run. Permanent failures are dropped.
+   * @param failures The failed deliveries.
+   * @param now The time of the failed attempt.
+   */
+  async enqueue(failures: FailedDelivery[], now: Date): Promise<void> {
+    const entries: Omit<OutboxEntry, "id">[] = failures
+      .filter((f) => isRetryableError(f.errorCode))
+      .map((f) => ({
+        user_id: f.userId,
+        channel: f.channel,
+        recipient: f.recipient,
+        message: f.message,
+        attempts: 1,
+        status: this.policy.maxAttempts > 1 ? "pending" : "dead",
+        next_retry_at: this.getNextRetryAt(1, now).toISOString(),
+        last_error: f.errorCode ?? null,
+        local_date: f.localDate,
+        timezone: f.timeZone,
+      }));
+    await this.repository.enqueueOutboxEntries(entries);
+  }
+
+  /**
+   * Retries every queued delivery that is due. Each attempt is recorded against
+   * the logs of the notifications in the message, which are marked as sent once
+   * a retry succeeds. Deliveries queued on an earlier local date than the
+   * user's current one are marked dead without another attempt, as their
+   * reminders are out of date.
+   * @param now The current time.
+   * @param failedTokens Collects device tokens that are no longer valid.
+   * @returns The number of entries retried or expired.
+   */
+  async drain(now: Date, failedTokens: string[]): Promise<number> {
+    const entries = await this.repository.getDueOutboxEntries(
+      now,
+      this.policy.batchSize,
+    );
+    for (const entry of entries) {
+      if (getLocalDateTime(now, entry.timezone).date > entry.local_date) {
+        await this.repository.updateOutboxEntry(entry.id, {
+          attempts: entry.attempts,
+          status: "dead",
+          next_retry_at: entry.next_retry_at,
+          last_error: "outbox/expired",
+        });
+        logger.warn("☠️ Giving up on expired delivery", {
+          entryId: entry.id,
+          userId: entry.user_id,
+          channel: entry.channel,
+          localDate: entry.local_date,
+        });
+        continue;
+      }
+
+      const result = await this.retry(entry);
+      const attempts = entry.attempts + 1;
+      const isStaleToken = entry.channel === "push" &&
+        isInvalidTokenError(result.errorCode);
+      const logIds = entry.message.notifications.map((n) => n.id);
+      await this.repository.insertNotificationDeliveries(
+        logIds.map((logId) => ({
+          log_id: logId,
+          channel: entry.channel,
+          recipient: entry.recipient,
+          platform: null,
+          status: result.success
+            ? "delivered"
+            : isStaleToken
+            ? "token_removed"
+            : "failed",
+          error_code: result.errorCode ?? null,
+          attempted_at: now.toISOString(),
+        })),
+      );
+
+      if (result.success) {
+        await this.repository.updateOutboxEntry(entry.id, {
+          attempts,
+          status: "delivered",
+          next_retry_at: entry.next_retry_at,
+          last_error: null,
+        });
+        await this.repository.markNotificationLogsSent(logIds);
+        continue;
+      }
+
+      if (isStaleToken) {
+        failedTokens.push(entry.recipient);
+      }
+      const isDead = attempts >= this.policy.maxAttempts ||
+        !isRetryableError(result.errorCode);
+      await this.repository.updateOutboxEntry(entry.id, {
+        attempts,
+        status: isDead ? "dead" : "pending",
+        next_retry_at: isDead
+          ? entry.next_retry_at
+          : this.getNextRetryAt(attempts, now).toISOString(),
+        last_error: result.errorCode ?? null,
+      });
+      if (isDead) {
+        logger.warn("☠️ Giving up on delivery", {
+          entryId: entry.id,
+          userId: entry.user_id,
+          channel: entry.channel,
+          attempts,
+          errorCode: result.errorCode,
+        });
+      }
+    }
+    return entries.length;
+  }
+
+  /**
+   * Attempts a queued delivery again through its channel.
+   * @param entry The outbox entry.
+   * @returns The delivery result.
+   */
+  private async retry(entry: OutboxEntry): Promise<DeliveryResult> {
+    const failed = (errorCode: string): DeliveryResult => ({
+      recipient: entry.recipient,
+      success: false,
+      errorCode,
+    });
+
+    let results: DeliveryResult[];
+    switch (entry.channel) {
+      case "push":
+      case "email": {
+        const channel = this.channels[entry.channel];
+        if (!channel?.isInitialized()) {
+          return failed(`${entry.channel}/channel-unavailable`);
+        }
+        results = await channel.send(entry.message, [entry.recipient]);
+        break;
+      }
+      case "webhook": {
+        const channel = this.channels.webhook;
+        if (!channel?.isInitialized()) {
+          return failed("webhook/channel-unavailable");
+        }
+        const endpoint = (await this.repository.getWebhookEndpoints(
+          entry.user_id,
+        )).find((e) => e.id === entry.recipient);
+        // Removed or disabled since the original attempt.
+        if (!endpoint) return failed("webhook/invalid-endpoint");
+        results = await channel.send(entry.message, [endpoint]);
+        break;
+      }
+    }
+    return results[0] ?? failed(`${entry.channel}/unknown-error`);
+  }
+}
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { InMemoryRepository } from "../../shared/InMemoryRepository.ts";
+import { NotificationLog, WebhookEndpoint } from "../../shared/models.ts";
+import { FailedDelivery } from "../services/DeliveryChannel.ts";
+import { InMemoryDeliveryChannel } from "../services/InMemoryDeliveryChannel.ts";
+import { OutboxPolicy, OutboxProcessor } from "./OutboxProcessor.ts";
+
+// 14:30 in Asia/Kolkata
+const NOW = new Date("2025-06-10T09:00:00Z");
+const MINUTE = 1000 * 60;
+
+const FAILED_LOG: NotificationLog = {
+  id: "log-1",
+  user_id: "user-1",
+  card_id: "card-1",
+  notification_type: "due",
+  title: "Payment due tomorrow",
+  body: "Pay ₹5,000 on Millennia 1234.",
+  payload: "/card_details/card-1",
+  status: "failed",
+  error_code: "messaging/internal-error",
+  skip_reason: null,
+  paid_amount: null,
+  sent_at: NOW.toISOString(),
+};
+
+function failure(changes: Partial<FailedDelivery> = {}): FailedDelivery {
+  return {
+    userId: "user-1",
+    channel: "push",
+    recipient: "token-1",
+    message: {
+      title: FAILED_LOG.title,
+      body: FAILED_LOG.body,
+      language: "english",
+      payload: FAILED_LOG.payload,
+      collapseKey: "due-card-1",
+      notifications: [
+        {
+          id: FAILED_LOG.id,
+          cardId: FAILED_LOG.card_id,
+          type: "due",
+          title: FAILED_LOG.title,
+          body: FAILED_LOG.body,
+          payload: FAILED_LOG.payload,
+          details: { last4Digits: "1234", currency: "INR", remaining: 5000 },
+        },
+      ],
+    },
+    errorCode: "messaging/internal-error",
+    localDate: "2025-06-10",
+    timeZone: "Asia/Kolkata",
+    ...changes,
+  };
+}
+
+function setup(policy: Partial<OutboxPolicy> = {}) {
+  const repository = new InMemoryRepository({ notificationLogs: [FAILED_LOG] });
+  const push = new InMemoryDeliveryChannel()
+    .simulate("token-1", "transient-error");
+  const webhook = new InMemoryDeliveryChannel<WebhookEndpoint>(
+    "webhook",
+    (endpoint) => endpoint.id,
+  );
+  const processor = new OutboxProcessor(
+    repository,
+    { push, webhook },
+    policy,
+  );
+  return { repository, push, processor };
+}
+
+function at(minutes: number): Date {
+  return new Date(NOW.getTime() + minutes * MINUTE);
+}
+
+Deno.test("backs off exponentially up to the maximum delay", () => {
+  const { processor } = setup();
+
+  assert.deepEqual(
+    [1, 2, 3, 4, 7, 8, 20].map((attempts) =>
+      (processor.getNextRetryAt(attempts, NOW).getTime() - NOW.getTime()) /
+      MINUTE
+    ),
+    [5, 10, 20, 40, 320, 360, 360],
+  );
+});
+
+Deno.test("retries transient failures until the maximum attempts", async () => {
+  const { repository, push, processor } = setup({ maxAttempts: 3 });
+
+  await processor.enqueue([failure()], NOW);
+  const [entry] = repository.outbox;
+  assert.equal(entry.status, "pending");
+  assert.equal(entry.attempts, 1);
+  assert.equal(entry.next_retry_at, at(5).toISOString());
+  assert.equal(entry.local_date, "2025-06-10");
+  assert.equal(entry.timezone, "Asia/Kolkata");
+
+  assert.equal(await processor.drain(at(4), []), 0);
+  assert.equal(await processor.drain(at(5), []), 1);
+  assert.equal(entry.status, "pending");
+  assert.equal(entry.attempts, 2);
+  assert.equal(entry.next_retry_at, at(15).toISOString());
+
+  assert.equal(await processor.drain(at(15), []), 1);
+  assert.equal(entry.status, "dead");
+  assert.equal(entry.attempts, 3);
+  assert.equal(entry.last_error, "messaging/internal-error");
+  assert.equal(await processor.drain(at(60 * 6), []), 0);
+
+  assert.equal(push.sent.length, 2);
+  assert.deepEqual(
+    repository.notificationDeliveries.map((d) => [d.log_id, d.status]),
+    [["log-1", "failed"], ["log-1", "failed"]],
+  );
+  assert.equal(repository.notificationLogs[0].status, "failed");
+});
+
+Deno.test("dead-letters a delivery at once with a single attempt allowed", async () => {
+  const { repository, processor } = setup({ maxAttempts: 1 });
+
+  await processor.enqueue([failure()], NOW);
+
+  assert.equal(repository.outbox[0].status, "dead");
+  assert.equal(await processor.drain(at(5), []), 0);
+});
+
+Deno.test("marks the notification sent once a retry succeeds", async () => {
+  const { repository, push, processor } = setup();
+
+  await processor.enqueue([failure()], NOW);
+  push.reset();
+  await processor.drain(at(5), []);
+
+  assert.equal(repository.outbox[0].status, "delivered");
+  assert.equal(repository.outbox[0].last_error, null);
+  assert.equal(repository.notificationLogs[0].status, "sent");
+  assert.equal(repository.notificationDeliveries[0].status, "delivered");
+});
+
+Deno.test("gives up on deliveries that fail permanently", async () => {
+  const { repository, push, processor } = setup();
+
+  // Permanent failures aren't queued at all.
+  await processor.enqueue([
+    failure({ errorCode: "messaging/registration-token-not-registered" }),
+    failure({
+      channel: "webhook",
+      recipient: "endpoint-1",
+      errorCode: "webhook/http-404",
+    }),
+  ], NOW);
+  assert.equal(repository.outbox.length, 0);
+
+  // Nor retried once they fail permanently on a retry.
+  await processor.enqueue([
+    failure(),
+    failure({
+      channel: "webhook",
+      recipient: "endpoint-1",
+      errorCode: "webhook/http-503",
+    }),
+  ], NOW);
+  push.simulate("token-1", "invalid-token");
+  const failedTokens: string[] = [];
+  assert.equal(await processor.drain(at(5), failedTokens), 2);
+
+  assert.deepEqual(
+    repository.outbox.map((e) => [e.channel, e.status, e.last_error]),
+    [
+      ["push", "dead", "messaging/registration-token-not-registered"],
+      // The endpoint was removed since the original attempt.
+      ["webhook", "dead", "webhook/invalid-endpoint"],
+    ],
+  );
+  assert.deepEqual(failedTokens, ["token-1"]);
+  assert.deepEqual(
+    repository.notificationDeliveries.map((d) => d.status),
+    ["token_removed", "failed"],
+  );
+});
+
+Deno.test("expires deliveries once the user's local date has passed", async () => {
+  const { repository, push, processor } = setup();
+
+  await processor.enqueue([failure()], NOW);
+  const [entry] = repository.outbox;
+
+  // 23:30 in Asia/Kolkata, still on the date the delivery was queued
+  assert.equal(await processor.drain(at(60 * 9), []), 1);
+  assert.equal(entry.status, "pending");
+  assert.equal(push.sent.length, 1);
+
+  // 00:05 the next day
+  assert.equal(await processor.drain(at(60 * 9 + 35), []), 1);
+  assert.equal(entry.status, "dead");
+  assert.equal(entry.last_error, "outbox/expired");
+  assert.equal(entry.attempts, 2);
+  assert.equal(push.sent.length, 1);
+  assert.equal(repository.notificationDeliveries.length, 1);
+});
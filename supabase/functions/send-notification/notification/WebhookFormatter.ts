@@ -0,0 +1,101 @@
+import { WebhookEndpoint } from "../../shared/models.ts";
+import { DeliveryMessage } from "../services/DeliveryChannel.ts";
+
+/**
+ * WebhookPayload is the JSON body posted to generic webhook endpoints.
+ */
+export interface WebhookPayload {
+  title: string;
+  body: string;
+  route: string;
+  sent_at: string;
+  notifications: {
+    id: string;
+    type: string;
+    card_id: string;
+    last_4_digits: string;
+    title: string;
+    body: string;
+    currency: string;
+    remaining: number | null;
+    minimum_due: number | null;
+    paid: number | null;
+    due_date: string | null;
+  }[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function toPayload(message: DeliveryMessage, sentAt: Date): WebhookPayload {
+  return {
+    title: message.title,
+    body: message.body,
+    route: message.payload,
+    sent_at: sentAt.toISOString(),
+    notifications: message.notifications.map((n) => ({
+      id: n.id,
+      type: n.type,
+      card_id: n.cardId,
+      last_4_digits: n.details.last4Digits,
+      title: n.title,
+      body: n.body,
+      currency: n.details.currency,
+      remaining: n.details.remaining ?? null,
+      minimum_due: n.details.minimumDue ?? null,
+      paid: n.details.paid ?? null,
+      due_date: n.details.dueDate ?? null,
+    })),
+  };
+}
+
+/**
+ * Shapes a message for a webhook endpoint. Generic endpoints get the structured
+ * payload; Slack, Discord and Telegram get their own incoming-message formats
+ * built from the localized title and body.
+ * @param endpoint The endpoint the message is posted to.
+ * @param message The message to format.
+ * @param sentAt The time the message is sent.
+ * @returns The JSON body to post, or null if the endpoint is misconfigured.
+ */
+export function formatWebhookMessage(
+  endpoint: WebhookEndpoint,
+  message: DeliveryMessage,
+  sentAt: Date
+): object | null {
+  switch (endpoint.format) {
+    case "slack":
+      return {
+        text: message.title,
+        blocks: [
+          {
+            type: "header",
+            text: { type: "plain_text", text: message.title },
+          },
+          {
+            type: "section",
+            // Slack only requires &, < and > to be escaped in mrkdwn
+            text: { type: "mrkdwn", text: escapeHtml(message.body) },
+          },
+        ],
+      };
+    case "discord":
+      return {
+        embeds: [{ title: message.title, description: message.body }],
+      };
+    case "telegram":
+      if (!endpoint.telegram_chat_id) return null;
+      return {
+        chat_id: endpoint.telegram_chat_id,
+        text: `<b>${escapeHtml(message.title)}</b>\n${escapeHtml(message.body)}`,
+        parse_mode: "HTML",
+      };
+    case "generic":
+    default:
+      return toPayload(message, sentAt);
+  }
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { WebhookEndpoint } from "../../shared/models.ts";
+import { DeliveryMessage } from "../services/DeliveryChannel.ts";
+import { formatWebhookMessage } from "./WebhookFormatter.ts";
+
+const SENT_AT = new Date("2025-06-10T09:00:00Z");
+
+const MESSAGE: DeliveryMessage = {
+  title: "Payment due <tomorrow>",
+  body: "Pay ₹5,000 on Millennia 1234 & avoid a late fee.",
+  language: "english",
+  payload: "/card_details/card-1",
+  collapseKey: "due-card-1",
+  notifications: [
+    {
+      id: "log-1",
+      cardId: "card-1",
+      type: "due",
+      title: "Payment due <tomorrow>",
+      body: "Pay ₹5,000 on Millennia 1234 & avoid a late fee.",
+      payload: "/card_details/card-1",
+      details: {
+        last4Digits: "1234",
+        currency: "INR",
+        remaining: 5000,
+        minimumDue: 500,
+        dueDate: "2025-06-11",
+      },
+    },
+  ],
+};
+
+function endpoint(changes: Partial<WebhookEndpoint>): WebhookEndpoint {
+  return {
+    id: "endpoint-1",
+    url: "https://hooks.example.com/cards",
+    format: "generic",
+    secret: null,
+    telegram_chat_id: null,
+    ...changes,
+  };
+}
+
+Deno.test("posts the structured payload to generic endpoints", () => {
+  assert.deepEqual(
+    formatWebhookMessage(endpoint({ format: "generic" }), MESSAGE, SENT_AT),
+    {
+      title: "Payment due <tomorrow>",
+      body: "Pay ₹5,000 on Millennia 1234 & avoid a late fee.",
+      route: "/card_details/card-1",
+      sent_at: "2025-06-10T09:00:00.000Z",
+      notifications: [
+        {
+          id: "log-1",
+          type: "due",
+          card_id: "card-1",
+          last_4_digits: "1234",
+          title: "Payment due <tomorrow>",
+          body: "Pay ₹5,000 on Millennia 1234 & avoid a late fee.",
+          currency: "INR",
+          remaining: 5000,
+          minimum_due: 500,
+          paid: null,
+          due_date: "2025-06-11",
+        },
+      ],
+    },
+  );
+});
+
+Deno.test("posts Slack messages as a header and an escaped section", () => {
+  assert.deepEqual(
+    formatWebhookMessage(endpoint({ format: "slack" }), MESSAGE, SENT_AT),
+    {
+      text: "Payment due <tomorrow>",
+      blocks: [
+        {
+          type: "header",
+          text: { type: "plain_text", text: "Payment due <tomorrow>" },
+        },
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: "Pay ₹5,000 on Millennia 1234 &amp; avoid a late fee.",
+          },
+        },
+      ],
+    },
+  );
+});
+
+Deno.test("posts Discord messages as an embed", () => {
+  assert.deepEqual(
+    formatWebhookMessage(endpoint({ format: "discord" }), MESSAGE, SENT_AT),
+    {
+      embeds: [
+        {
+          title: "Payment due <tomorrow>",
+          description: "Pay ₹5,000 on Millennia 1234 & avoid a late fee.",
+        },
+      ],
+    },
+  );
+});
+
+Deno.test("posts Telegram messages as HTML to the endpoint's chat", () => {
+  assert.deepEqual(
+    formatWebhookMessage(
+      endpoint({ format: "telegram", telegram_chat_id: "-100123" }),
+      MESSAGE,
+      SENT_AT,
+    ),
+    {
+      chat_id: "-100123",
+      text:
+        "<b>Payment due &lt;tomorrow&gt;</b>\nPay ₹5,000 on Millennia 1234 &amp; avoid a late fee.",
+      parse_mode: "HTML",
+    },
+  );
+  assert.equal(
+    formatWebhookMessage(endpoint({ format: "telegram" }), MESSAGE, SENT_AT),
+    null,
+  );
+});
@@ -1,5 +1,6 @@
 import { NotificationStrings } from "../../../shared/models.ts";
 import { formatCurrency } from "../../utils/currencyUtils.ts";
+import { formatDate } from "../../utils/dateUtils.ts";
 
 export const en: NotificationStrings = {
   billing: (cardName, last4Digits, billingInDays) => {
@@ -28,6 +29,7 @@ export const en: NotificationStrings = {
     last4Digits,
     dueInDays,
     remaining,
+    minimumDue,
     currencyCode,
     isAutoDebit
   ) => {
@@ -41,6 +43,9 @@ export const en: NotificationStrings = {
     }
     const amount = formatCurrency(remaining, currencyCode, "en");
     let body = `Please pay ${amount} for your card ending in ${last4Digits} to avoid late fees.`;
+    if (minimumDue > 0) {
+      body += ` Minimum due: ${formatCurrency(minimumDue, currencyCode, "en")}.`;
+    }
     if (isAutoDebit) {
       body +=
         " Auto-debit is enabled for this card — please ensure sufficient balance in the linked account.";
@@ -50,9 +55,23 @@ export const en: NotificationStrings = {
       body,
     };
   },
-  overdue: (cardName, last4Digits, remaining, currencyCode, isAutoDebit) => {
+  overdue: (
+    cardName,
+    last4Digits,
+    remaining,
+    minimumDue,
+    currencyCode,
+    isAutoDebit
+  ) => {
     const amount = formatCurrency(remaining, currencyCode, "en");
     let body = `Your payment of ${amount} for ${cardName} (**** ${last4Digits}) is overdue. Please pay now to avoid further charges.`;
+    if (minimumDue > 0) {
+      body += ` Pay at least the minimum due of ${formatCurrency(
+        minimumDue,
+        currencyCode,
+        "en"
+      )} to limit late fees.`;
+    }
     if (isAutoDebit) {
       body +=
         " Auto-debit is enabled for this card — please ensure sufficient balance in the linked account.";
@@ -62,6 +81,38 @@ export const en: NotificationStrings = {
       body,
     };
   },
+  expectedDue: (cardName, last4Digits, dueDate, dueInDays) => {
+    const date = formatDate(dueDate, "en");
+    return {
+      title: `🗓️ Payment Expected by ${date}: ${cardName}`,
+      body: `Your statement for ${cardName} (**** ${last4Digits}) is out and payment is expected by ${date}, in ${dueInDays} days. Log your statement to track the exact amount.`,
+    };
+  },
+  graceEnding: (cardName, last4Digits, daysLeft) => {
+    let title = "";
+    if (daysLeft === 0) {
+      title = `⚠️ Grace Period Ends Today: ${cardName}`;
+    } else {
+      title = `⚠️ Grace Period Ends in ${daysLeft} Day${
+        daysLeft > 1 ? "s" : ""
+      }: ${cardName}`;
+    }
+    return {
+      title,
+      body: `The interest-free period for ${cardName} (**** ${last4Digits}) is ending. Pay your statement now to avoid late fees.`,
+    };
+  },
+  minimumPaid: (cardName, last4Digits, dueInDays, remaining, currencyCode) => {
+    const amount = formatCurrency(remaining, currencyCode, "en");
+    const body =
+      dueInDays >= 0
+        ? `You've paid the minimum due on ${cardName} (**** ${last4Digits}). Clear the full balance of ${amount} by the due date to avoid interest.`
+        : `You've paid the minimum due on ${cardName} (**** ${last4Digits}), but interest is accruing on the remaining ${amount}. Clear the full balance to stop further interest.`;
+    return {
+      title: `✅ Minimum Paid: ${cardName}`,
+      body,
+    };
+  },
   partial: (cardName, last4Digits, paid, remaining, currencyCode) => {
     const paidAmount = formatCurrency(paid, currencyCode, "en");
     const remainingAmount = formatCurrency(remaining, currencyCode, "en");
@@ -70,4 +121,26 @@ export const en: NotificationStrings = {
       body: `Thank you for paying ${paidAmount}. A balance of ${remainingAmount} is still due for ${cardName} (**** ${last4Digits}).`,
     };
   },
+  utilization: (cardName, last4Digits, utilizationPercent, tier) => {
+    return {
+      title: `📊 ${utilizationPercent}% Credit Used: ${cardName}`,
+      body: `You have used ${utilizationPercent}% of the credit limit on ${cardName} (**** ${last4Digits}), crossing your ${tier}% alert level. High utilization can affect your credit score.`,
+    };
+  },
+  digest: (items) => {
+    return {
+      title: `🔔 ${items.length} Card Update${items.length > 1 ? "s" : ""} Today`,
+      body: items.map((item, i) => `${i + 1}. ${item.title}`).join("\n"),
+    };
+  },
+  test: {
+    title: "🔔 Test Notification",
+    body: "Notifications are working! Your card reminders will arrive on this device.",
+  },
+  email: {
+    greeting: "Hi there,",
+    openApp: "Open the app",
+    footer:
+      "You are receiving this email because email reminders are turned on in your notification settings.",
+  },
 };
@@ -1,5 +1,6 @@
 import { NotificationStrings } from "../../../shared/models.ts";
 import { formatCurrency } from "../../utils/currencyUtils.ts";
+import { formatDate } from "../../utils/dateUtils.ts";
 
 export const hi: NotificationStrings = {
   billing: (cardName, last4Digits, billingInDays) => {
@@ -26,6 +27,7 @@ export const hi: NotificationStrings = {
     last4Digits,
     dueInDays,
     remaining,
+    minimumDue,
     currencyCode,
     isAutoDebit
   ) => {
@@ -39,6 +41,9 @@ export const hi: NotificationStrings = {
     }
     const amount = formatCurrency(remaining, currencyCode, "hi");
     let body = `कृपया लेट फीस से बचने के लिए अपने कार्ड (**** ${last4Digits}) का ${amount} का भुगतान करें।`;
+    if (minimumDue > 0) {
+      body += ` न्यूनतम देय राशि: ${formatCurrency(minimumDue, currencyCode, "hi")}।`;
+    }
     if (isAutoDebit) {
       body +=
         " इस कार्ड के लिए ऑटो-डेबिट सक्षम है — कृपया लिंक किए गए खाते में पर्याप्त शेष राशि रखें।";
@@ -48,9 +53,23 @@ export const hi: NotificationStrings = {
       body,
     };
   },
-  overdue: (cardName, last4Digits, remaining, currencyCode, isAutoDebit) => {
+  overdue: (
+    cardName,
+    last4Digits,
+    remaining,
+    minimumDue,
+    currencyCode,
+    isAutoDebit
+  ) => {
     const amount = formatCurrency(remaining, currencyCode, "hi");
     let body = `आपके ${cardName} (**** ${last4Digits}) का ${amount} का भुगतान बकाया है। कृपया अतिरिक्त शुल्क से बचने के लिए अभी भुगतान करें।`;
+    if (minimumDue > 0) {
+      body += ` लेट फीस सीमित करने के लिए कम से कम ${formatCurrency(
+        minimumDue,
+        currencyCode,
+        "hi"
+      )} की न्यूनतम देय राशि का भुगतान करें।`;
+    }
     if (isAutoDebit) {
       body +=
         " इस कार्ड के लिए ऑटो-डेबिट सक्षम है — कृपया लिंक किए गए खाते में पर्याप्त शेष राशि रखें।";
@@ -60,6 +79,36 @@ export const hi: NotificationStrings = {
       body,
     };
   },
+  expectedDue: (cardName, last4Digits, dueDate, dueInDays) => {
+    const date = formatDate(dueDate, "hi");
+    return {
+      title: `🗓️ ${date} तक भुगतान अपेक्षित: ${cardName}`,
+      body: `आपके ${cardName} (**** ${last4Digits}) का स्टेटमेंट जेनरेट हो गया है और भुगतान ${dueInDays} दिनों में, ${date} तक अपेक्षित है। सटीक राशि ट्रैक करने के लिए अपना स्टेटमेंट लॉग करें।`,
+    };
+  },
+  graceEnding: (cardName, last4Digits, daysLeft) => {
+    let title = "";
+    if (daysLeft === 0) {
+      title = `⚠️ ग्रेस अवधि आज समाप्त: ${cardName}`;
+    } else {
+      title = `⚠️ ग्रेस अवधि ${daysLeft} दिनों में समाप्त: ${cardName}`;
+    }
+    return {
+      title,
+      body: `${cardName} (**** ${last4Digits}) की ब्याज-मुक्त अवधि समाप्त हो रही है। लेट फीस से बचने के लिए अभी अपने स्टेटमेंट का भुगतान करें।`,
+    };
+  },
+  minimumPaid: (cardName, last4Digits, dueInDays, remaining, currencyCode) => {
+    const amount = formatCurrency(remaining, currencyCode, "hi");
+    const body =
+      dueInDays >= 0
+        ? `आपने ${cardName} (**** ${last4Digits}) की न्यूनतम देय राशि का भुगतान कर दिया है। ब्याज से बचने के लिए अंतिम तिथि तक ${amount} की पूरी शेष राशि चुकाएं।`
+        : `आपने ${cardName} (**** ${last4Digits}) की न्यूनतम देय राशि का भुगतान कर दिया है, लेकिन शेष ${amount} पर ब्याज लग रहा है। आगे के ब्याज से बचने के लिए पूरी शेष राशि चुकाएं।`;
+    return {
+      title: `✅ न्यूनतम भुगतान हो गया: ${cardName}`,
+      body,
+    };
+  },
   partial: (cardName, last4Digits, paid, remaining, currencyCode) => {
     const paidAmount = formatCurrency(paid, currencyCode, "hi");
     const remainingAmount = formatCurrency(remaining, currencyCode, "hi");
@@ -68,4 +117,26 @@ export const hi: NotificationStrings = {
       body: `${paidAmount} के भुगतान के लिए धन्यवाद। आपके ${cardName} (**** ${last4Digits}) पर अभी भी ${remainingAmount} बकाया है।`,
     };
   },
+  utilization: (cardName, last4Digits, utilizationPercent, tier) => {
+    return {
+      title: `📊 ${utilizationPercent}% क्रेडिट उपयोग: ${cardName}`,
+      body: `आपने ${cardName} (**** ${last4Digits}) की क्रेडिट सीमा का ${utilizationPercent}% उपयोग कर लिया है, जो आपके ${tier}% अलर्ट स्तर से अधिक है। अधिक उपयोग आपके क्रेडिट स्कोर को प्रभावित कर सकता है।`,
+    };
+  },
+  digest: (items) => {
+    return {
+      title: `🔔 आज ${items.length} कार्ड अपडेट`,
+      body: items.map((item, i) => `${i + 1}. ${item.title}`).join("\n"),
+    };
+  },
+  test: {
+    title: "🔔 परीक्षण सूचना",
+    body: "सूचनाएं काम कर रही हैं! आपके कार्ड रिमाइंडर इस डिवाइस पर आएंगे।",
+  },
+  email: {
+    greeting: "नमस्ते,",
+    openApp: "ऐप खोलें",
+    footer:
+      "आपको यह ईमेल इसलिए मिल रहा है क्योंकि आपकी सूचना सेटिंग्स में ईमेल रिमाइंडर चालू हैं।",
+  },
 };
@@ -0,0 +1,115 @@
+import {
+  DeliveryChannelType,
+  DeliveryMessage,
+  WebhookEndpoint,
+} from "../../shared/models.ts";
+
+export type { DeliveryMessage };
+
+/**
+ * DeliveryResult describes the outcome of delivering a message to a single recipient.
+ */
+export interface DeliveryResult {
+  // A device token for push, an email address for email, an endpoint ID for webhooks
+  recipient: string;
+  success: boolean;
+  errorCode?: string;
+}
+
+/**
+ * FailedDelivery describes a delivery that failed and may be retried later.
+ */
+export interface FailedDelivery {
+  userId: string;
+  channel: DeliveryChannelType;
+  recipient: string;
+  message: DeliveryMessage;
+  errorCode?: string;
+  // The user's local date, in "YYYY-MM-DD" format, and timezone
+  localDate: string;
+  timeZone: string;
+}
+
+/**
+ * Error codes meaning a device token is no longer valid and should be removed.
+ */
+export const INVALID_TOKEN_ERRORS = [
+  "messaging/invalid-registration-token",
+  "messaging/registration-token-not-registered",
+  "messaging/not-found",
+];
+
+/**
+ * Checks whether a push delivery error means the device token should be removed.
+ * @param errorCode The error code of a failed delivery.
+ * @returns True if the token is invalid or no longer registered.
+ */
+export function isInvalidTokenError(errorCode: string | undefined): boolean {
+  return errorCode !== undefined && INVALID_TOKEN_ERRORS.includes(errorCode);
+}
+
+/**
+ * Checks whether an HTTP status is worth retrying: timeouts, rate limits and
+ * server errors.
+ * @param status The HTTP response status.
+ * @returns True if a later attempt may succeed.
+ */
+export function isRetryableHttpStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Checks whether a failed delivery is worth retrying. Every failure is treated
+ * as transient except invalid device tokens, misconfigured webhooks and webhook
+ * responses that won't change on a retry.
+ * @param errorCode The error code of a failed delivery.
+ * @returns True if a later attempt may succeed.
+ */
+export function isRetryableError(errorCode: string | undefined): boolean {
+  if (
+    isInvalidTokenError(errorCode) ||
+    errorCode === "webhook/invalid-endpoint"
+  ) {
+    return false;
+  }
+  const status = errorCode?.match(/^webhook\/http-(\d+)$/)?.[1];
+  return status === undefined || isRetryableHttpStatus(Number(status));
+}
+
+/**
+ * DeliveryChannel is a transport capable of delivering messages to recipients,
+ * e.g. device tokens for push or addresses for email.
+ */
+export interface DeliveryChannel<TRecipient = string> {
+  /**
+   * The kind of channel, recorded on notification logs.
+   */
+  readonly type: DeliveryChannelType;
+
+  /**
+   * Checks if the channel is ready to deliver messages.
+   */
+  isInitialized(): boolean;
+
+  /**
+   * Delivers a message to each of the given recipients.
+   * Implementations report failures per recipient rather than throwing.
+   * @param message The message to deliver.
+   * @param recipients The recipients to deliver to.
+   * @returns One result per recipient, in the same order as `recipients`.
+   */
+  send(
+    message: DeliveryMessage,
+    recipients: TRecipient[]
+  ): Promise<DeliveryResult[]>;
+}
+
+/**
+ * DeliveryChannels holds the configured channel for each channel type.
+ * Channels that are left out are skipped, even for users who prefer them.
+ */
+export interface DeliveryChannels {
+  push?: DeliveryChannel;
+  email?: DeliveryChannel;
+  webhook?: DeliveryChannel<WebhookEndpoint>;
+}
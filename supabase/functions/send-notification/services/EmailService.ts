@@ -0,0 +1,98 @@
+// @ts-types="@types/nodemailer"
+import nodemailer from "nodemailer";
+import {
+  DeliveryChannel,
+  DeliveryMessage,
+  DeliveryResult,
+} from "./DeliveryChannel.ts";
+import { renderEmail } from "../notification/EmailTemplate.ts";
+import { logger } from "../../shared/logger.ts";
+
+/**
+ * EmailServiceOptions configures the SMTP server emails are sent through.
+ */
+export interface EmailServiceOptions {
+  host: string | undefined;
+  port: number;
+  // Use TLS from the start (usually port 465) instead of upgrading with STARTTLS
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Sender address, e.g. "Card Reminders <reminders@example.com>"
+  from: string | undefined;
+  // Base URL of the app; emails link to the notification's route when set
+  appUrl?: string;
+}
+
+/**
+ * EmailTransport is the part of a nodemailer transport the service sends
+ * through, e.g. a stand-in that records messages in tests.
+ */
+export type EmailTransport = Pick<nodemailer.Transporter, "sendMail">;
+
+export class EmailService implements DeliveryChannel {
+  readonly type = "email";
+  private transporter: EmailTransport | undefined;
+  private from = "";
+  private appUrl: string | undefined;
+
+  /**
+   * Creates an instance of EmailService. Authentication is optional, so the
+   * service can point at a local SMTP sink such as Inbucket during development.
+   * @param options The SMTP server settings.
+   * @param transport Sends the emails instead of an SMTP connection to the server.
+   */
+  constructor(options: EmailServiceOptions, transport?: EmailTransport) {
+    if (!options.host || !options.from) {
+      logger.error("❌ Missing SMTP_HOST or SMTP_FROM env var.");
+      return;
+    }
+    try {
+      this.transporter =
+        transport ??
+        nodemailer.createTransport({
+          host: options.host,
+          port: options.port,
+          secure: options.secure,
+          auth: options.user
+            ? { user: options.user, pass: options.pass }
+            : undefined,
+        });
+      this.from = options.from;
+      this.appUrl = options.appUrl;
+    } catch (e) {
+      logger.error("❌ SMTP transport init failed", { error: e });
+    }
+  }
+
+  isInitialized(): boolean {
+    return this.transporter !== undefined;
+  }
+
+  async send(
+    message: DeliveryMessage,
+    recipients: string[]
+  ): Promise<DeliveryResult[]> {
+    if (!this.transporter || !recipients.length) return [];
+
+    const email = renderEmail(message, this.appUrl);
+    const results: DeliveryResult[] = [];
+    for (const recipient of recipients) {
+      try {
+        await this.transporter.sendMail({
+          from: this.from,
+          to: recipient,
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+        });
+        results.push({ recipient, success: true });
+      } catch (error) {
+        logger.error("Error sending email", { recipient, error });
+        const code = (error as { code?: string }).code ?? "unknown-error";
+        results.push({ recipient, success: false, errorCode: `email/${code}` });
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+// @ts-types="@types/nodemailer"
+import nodemailer from "nodemailer";
+import { DeliveryMessage } from "./DeliveryChannel.ts";
+import { EmailService, EmailServiceOptions } from "./EmailService.ts";
+
+const OPTIONS: EmailServiceOptions = {
+  host: "localhost",
+  port: 2500,
+  secure: false,
+  from: "Card Reminders <reminders@example.com>",
+  appUrl: "https://app.example.com",
+};
+
+const MESSAGE: DeliveryMessage = {
+  title: "Payment due tomorrow",
+  body: "Pay ₹5,000 on Millennia 1234.",
+  language: "english",
+  payload: "/card_details/card-1",
+  collapseKey: "due-card-1",
+  notifications: [],
+};
+
+Deno.test("sends the rendered email through the transport", async () => {
+  // nodemailer's JSON transport builds the message without connecting anywhere.
+  const transport = nodemailer.createTransport({ jsonTransport: true });
+  const sent: Record<string, unknown>[] = [];
+  const service = new EmailService(OPTIONS, {
+    sendMail: async (mail) => {
+      const info = await transport.sendMail(mail);
+      sent.push(JSON.parse(info.message.toString()));
+      return info;
+    },
+  });
+
+  const results = await service.send(MESSAGE, ["one@example.com"]);
+
+  assert.deepEqual(results, [{ recipient: "one@example.com", success: true }]);
+  assert.equal(sent.length, 1);
+  const [mail] = sent;
+  assert.equal(mail.subject, "Payment due tomorrow");
+  assert.deepEqual(mail.to, [{ address: "one@example.com", name: "" }]);
+  assert.deepEqual(mail.from, {
+    address: "reminders@example.com",
+    name: "Card Reminders",
+  });
+  assert.match(String(mail.text), /^Hi there,\n\nPayment due tomorrow/);
+  assert.match(
+    String(mail.html),
+    /href="https:\/\/app\.example\.com\/card_details\/card-1"/,
+  );
+});
+
+Deno.test("reports a failed send per recipient with its SMTP error code", async () => {
+  const service = new EmailService(OPTIONS, {
+    sendMail: (mail) =>
+      mail.to === "down@example.com"
+        ? Promise.reject(Object.assign(new Error("refused"), {
+          code: "ECONNECTION",
+        }))
+        : Promise.resolve({}),
+  });
+
+  const results = await service.send(MESSAGE, [
+    "down@example.com",
+    "up@example.com",
+  ]);
+
+  assert.deepEqual(results, [
+    {
+      recipient: "down@example.com",
+      success: false,
+      errorCode: "email/ECONNECTION",
+    },
+    { recipient: "up@example.com", success: true },
+  ]);
+});
+
+Deno.test("isn't initialized without a sender address", () => {
+  const service = new EmailService(
+    { ...OPTIONS, from: undefined },
+    { sendMail: () => Promise.resolve({}) },
+  );
+
+  assert.equal(service.isInitialized(), false);
+});
@@ -1,12 +1,18 @@
 import admin from "npm:firebase-admin@^11.11.1";
-import { NotificationLog } from "../../shared/models.ts";
+import {
+  DeliveryChannel,
+  DeliveryMessage,
+  DeliveryResult,
+} from "./DeliveryChannel.ts";
+import { logger } from "../../shared/logger.ts";
 
-export class FirebaseService {
+export class FirebaseService implements DeliveryChannel {
+  readonly type = "push";
   private app: admin.app.App | undefined;
 
   constructor(serviceAccountJson: string | undefined) {
     if (!serviceAccountJson) {
-      console.error("❌ Missing FIREBASE_SERVICE_ACCOUNT_JSON env var.");
+      logger.error("❌ Missing FIREBASE_SERVICE_ACCOUNT_JSON env var.");
       return;
     }
     try {
@@ -14,7 +20,7 @@ export class FirebaseService {
         credential: admin.credential.cert(JSON.parse(serviceAccountJson)),
       });
     } catch (e) {
-      console.error("❌ Firebase Admin SDK init failed:", e);
+      logger.error("❌ Firebase Admin SDK init failed", { error: e });
     }
   }
 
@@ -22,66 +28,47 @@ export class FirebaseService {
     return this.app !== undefined;
   }
 
-  async sendNotification(
-    userId: string,
-    cardId: string,
-    notificationType: NotificationLog["notification_type"],
-    title: string,
-    body: string,
-    payload: string,
-    tokens: string[],
-    logs: NotificationLog[],
-    failedTokens: string[]
-  ): Promise<void> {
-    if (!this.app || !tokens.length) return;
+  async send(
+    message: DeliveryMessage,
+    tokens: string[]
+  ): Promise<DeliveryResult[]> {
+    if (!this.app || !tokens.length) return [];
 
     const msg: admin.messaging.MulticastMessage = {
-      notification: { title, body },
-      data: { route: payload },
+      notification: { title: message.title, body: message.body },
+      data: { route: message.payload },
       tokens,
       android: {
         notification: {
-          tag: `${notificationType}-${cardId}`,
+          tag: message.collapseKey,
         },
       },
       apns: {
         headers: {
-          "apns-collapse-id": `${notificationType}-${cardId}`,
+          "apns-collapse-id": message.collapseKey,
         },
       },
     };
 
     try {
       const result = await this.app.messaging().sendEachForMulticast(msg);
-      result.responses.forEach((res, i) => {
-        if (res.success) {
-          logs.push({
-            user_id: userId,
-            card_id: cardId,
-            notification_type: notificationType,
-            title,
-            body,
-            payload,
-            sent_at: new Date().toISOString(),
-          });
-        } else if (res.error) {
-          const e = res.error.code;
-          console.warn(
-            `Failed to send FCM to token ${tokens[i]} for user ${userId}, card ${cardId}. Error: ${e}`
-          );
-          if (
-            [
-              "messaging/invalid-registration-token",
-              "messaging/registration-token-not-registered",
-              "messaging/not-found",
-            ].includes(e)
-          ) {
-            failedTokens.push(tokens[i]);
-          }
-        }
-      });
+      return result.responses.map((res, i) => ({
+        recipient: tokens[i],
+        success: res.success,
+        errorCode: res.error?.code,
+      }));
     } catch (error) {
-      console.error("Error sending FCM multicast message:", error);
+      logger.error("Error sending FCM multicast message", {
+        tokens,
+        error,
+      });
+      const errorCode =
+        (error as { code?: string }).code ?? "messaging/unknown-error";
+      return tokens.map((recipient) => ({
+        recipient,
+        success: false,
+        errorCode,
+      }));
     }
   }
 }
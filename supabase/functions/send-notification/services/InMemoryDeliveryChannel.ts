@@ -0,0 +1,86 @@
+import { DeliveryChannelType } from "../../shared/models.ts";
+import {
+  DeliveryChannel,
+  DeliveryMessage,
+  DeliveryResult,
+} from "./DeliveryChannel.ts";
+
+/**
+ * RecipientOutcome is the simulated result of delivering to a recipient.
+ */
+export type RecipientOutcome = "success" | "invalid-token" | "transient-error";
+
+/**
+ * SentMessage records a message handed to the in-memory channel and its results.
+ */
+export interface SentMessage {
+  message: DeliveryMessage;
+  results: DeliveryResult[];
+}
+
+const OUTCOME_ERRORS: Record<RecipientOutcome, string | undefined> = {
+  success: undefined,
+  "invalid-token": "messaging/registration-token-not-registered",
+  "transient-error": "messaging/internal-error",
+};
+
+/**
+ * A DeliveryChannel that records messages in memory instead of delivering them.
+ * Recipients succeed unless another outcome is simulated for them, which lets
+ * the notification flow run without Firebase, SMTP or webhook endpoints.
+ */
+export class InMemoryDeliveryChannel<
+  TRecipient = string,
+> implements DeliveryChannel<TRecipient> {
+  readonly sent: SentMessage[] = [];
+  private outcomes = new Map<string, RecipientOutcome>();
+
+  /**
+   * Creates an instance of InMemoryDeliveryChannel.
+   * @param type The kind of channel to stand in for.
+   * @param identify Maps a recipient to the ID reported in results, e.g. a webhook endpoint to its ID.
+   */
+  constructor(
+    readonly type: DeliveryChannelType = "push",
+    private identify: (recipient: TRecipient) => string = String
+  ) {}
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  /**
+   * Simulates the outcome of every future delivery to a recipient.
+   * @param recipient The recipient's ID, e.g. a device token or email address.
+   * @param outcome The outcome to simulate.
+   * @returns The channel, for chaining.
+   */
+  simulate(recipient: string, outcome: RecipientOutcome): this {
+    this.outcomes.set(recipient, outcome);
+    return this;
+  }
+
+  /**
+   * Clears recorded messages and simulated outcomes.
+   */
+  reset(): void {
+    this.sent.length = 0;
+    this.outcomes.clear();
+  }
+
+  send(
+    message: DeliveryMessage,
+    recipients: TRecipient[]
+  ): Promise<DeliveryResult[]> {
+    const results = recipients.map((r) => {
+      const recipient = this.identify(r);
+      const errorCode =
+        OUTCOME_ERRORS[this.outcomes.get(recipient) ?? "success"];
+      return errorCode
+        ? { recipient, success: false, errorCode }
+        : { recipient, success: true };
+    });
+    this.sent.push({ message, results });
+    return Promise.resolve(results);
+  }
+}
@@ -0,0 +1,261 @@
+import { WebhookEndpoint } from "../../shared/models.ts";
+import { logger } from "../../shared/logger.ts";
+import {
+  DeliveryChannel,
+  DeliveryMessage,
+  DeliveryResult,
+} from "./DeliveryChannel.ts";
+import { formatWebhookMessage } from "../notification/WebhookFormatter.ts";
+
+/**
+ * WebhookServiceOptions tunes webhook requests.
+ */
+export interface WebhookServiceOptions {
+  // Time a request may take before it is aborted
+  timeoutMs?: number;
+  // Resolves endpoint host names, `Deno.resolveDns` by default
+  resolveDns?: DnsResolver;
+  // Sends the requests, the global `fetch` by default
+  fetch?: typeof fetch;
+}
+
+/**
+ * DnsResolver looks up the addresses of a host name for one record type.
+ */
+export type DnsResolver = (
+  host: string,
+  recordType: "A" | "AAAA"
+) => Promise<string[]>;
+
+/**
+ * The header carrying the payload signature: "sha256=" followed by the hex
+ * HMAC-SHA256 of the raw request body, keyed with the endpoint's secret.
+ */
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * Signs a request body with an endpoint's secret.
+ * @param secret The shared secret.
+ * @param body The raw request body.
+ * @returns The signature header value.
+ */
+export async function signWebhookBody(
+  secret: string,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  const hex = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${hex}`;
+}
+
+/**
+ * The hosts the chat formats may post to.
+ */
+const OFFICIAL_WEBHOOK_HOSTS: Partial<
+  Record<WebhookEndpoint["format"], string[]>
+> = {
+  slack: ["hooks.slack.com"],
+  discord: ["discord.com", "discordapp.com"],
+  telegram: ["api.telegram.org"],
+};
+
+/**
+ * Checks whether a webhook URL may be fetched from the server. URLs must be
+ * https; chat formats must use their official host, and generic endpoints must
+ * not point at loopback, private, link-local or single-label hosts. Mirrors
+ * the `is_allowed_webhook_url` check on `webhook_endpoints`.
+ * @param url The endpoint URL.
+ * @param format The endpoint format.
+ * @returns True if the URL may be posted to.
+ */
+export function isAllowedWebhookUrl(
+  url: string,
+  format: WebhookEndpoint["format"]
+): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:") return false;
+
+  const host = parsed.hostname.replace(/\.+$/, "");
+  const officialHosts = OFFICIAL_WEBHOOK_HOSTS[format];
+  if (officialHosts) return officialHosts.includes(host);
+
+  if (isIpAddress(host)) return !isPrivateAddress(host.replace(/^\[|\]$/g, ""));
+  return host.includes(".") && !/\.(localhost|local|internal)$/.test(host);
+}
+
+const IPV4_ADDRESS = /^(\d+)\.(\d+)\.\d+\.\d+$/;
+
+// URL host names are normalized, so IPv4 hosts are dotted quads and IPv6 hosts
+// are bracketed.
+function isIpAddress(host: string): boolean {
+  return host.startsWith("[") || IPV4_ADDRESS.test(host);
+}
+
+/**
+ * Checks whether an IP address is unspecified, loopback, private, link-local
+ * or shared (carrier-grade NAT), or an IPv4-mapped IPv6 address.
+ * @param address An IPv4 or IPv6 address, without brackets.
+ * @returns True if the address must not be posted to.
+ */
+function isPrivateAddress(address: string): boolean {
+  const ipv4 = address.match(IPV4_ADDRESS);
+  if (!ipv4) {
+    // Unspecified, loopback, IPv4-mapped, unique local and link-local
+    return /^(0|:|f[cd]|fe[89ab])/i.test(address);
+  }
+  const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127)
+  );
+}
+
+export class WebhookService implements DeliveryChannel<WebhookEndpoint> {
+  readonly type = "webhook";
+  private timeoutMs: number;
+  private resolveDns: DnsResolver;
+  private fetch: typeof fetch;
+
+  constructor(options: WebhookServiceOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.resolveDns =
+      options.resolveDns ??
+      ((host, recordType) => Deno.resolveDns(host, recordType));
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  async send(
+    message: DeliveryMessage,
+    endpoints: WebhookEndpoint[]
+  ): Promise<DeliveryResult[]> {
+    const sentAt = new Date();
+    return await Promise.all(
+      endpoints.map((endpoint) => this.post(endpoint, message, sentAt))
+    );
+  }
+
+  /**
+   * Posts a message to one endpoint once. Failed requests aren't retried here:
+   * transient failures are queued in the outbox, which backs off between
+   * attempts. Redirects aren't followed, so a public endpoint can't forward
+   * the request to a private host.
+   * @param endpoint The endpoint to post to.
+   * @param message The message to deliver.
+   * @param sentAt The time the message is sent.
+   * @returns The delivery result, identified by the endpoint ID.
+   */
+  private async post(
+    endpoint: WebhookEndpoint,
+    message: DeliveryMessage,
+    sentAt: Date
+  ): Promise<DeliveryResult> {
+    const content = isAllowedWebhookUrl(endpoint.url, endpoint.format)
+      ? formatWebhookMessage(endpoint, message, sentAt)
+      : null;
+    if (!content) {
+      return {
+        recipient: endpoint.id,
+        success: false,
+        errorCode: "webhook/invalid-endpoint",
+      };
+    }
+    const addressError = await this.checkHostAddresses(endpoint);
+    if (addressError) {
+      logger.warn("Webhook host rejected", {
+        endpointId: endpoint.id,
+        errorCode: addressError,
+      });
+      return {
+        recipient: endpoint.id,
+        success: false,
+        errorCode: addressError,
+      };
+    }
+
+    const body = JSON.stringify(content);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (endpoint.secret) {
+      headers[SIGNATURE_HEADER] = await signWebhookBody(endpoint.secret, body);
+    }
+
+    let errorCode: string;
+    try {
+      const res = await this.fetch(endpoint.url, {
+        method: "POST",
+        headers,
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      await res.body?.cancel();
+      if (res.ok) {
+        return { recipient: endpoint.id, success: true };
+      }
+      errorCode = `webhook/http-${res.status}`;
+    } catch (error) {
+      errorCode =
+        (error as Error).name === "TimeoutError"
+          ? "webhook/timeout"
+          : "webhook/network-error";
+    }
+    logger.warn("Webhook request failed", {
+      endpointId: endpoint.id,
+      errorCode,
+    });
+    return { recipient: endpoint.id, success: false, errorCode };
+  }
+
+  /**
+   * Resolves the host name of a generic endpoint and checks that none of its
+   * addresses is private, so a public name can't point the request at an
+   * internal host. Chat formats are pinned to their official hosts and IP
+   * literals are checked by `isAllowedWebhookUrl`. The request itself resolves
+   * the name again, so a host whose records change between the two lookups
+   * (DNS rebinding) isn't caught.
+   * @param endpoint The endpoint to check.
+   * @returns The error code to report, or null if the endpoint may be posted to.
+   */
+  private async checkHostAddresses(
+    endpoint: WebhookEndpoint
+  ): Promise<string | null> {
+    const host = new URL(endpoint.url).hostname.replace(/\.+$/, "");
+    if (OFFICIAL_WEBHOOK_HOSTS[endpoint.format] || isIpAddress(host)) {
+      return null;
+    }
+    const lookups = await Promise.allSettled([
+      this.resolveDns(host, "A"),
+      this.resolveDns(host, "AAAA"),
+    ]);
+    const addresses = lookups.flatMap((lookup) =>
+      lookup.status === "fulfilled" ? lookup.value : []
+    );
+    if (addresses.length === 0) return "webhook/network-error";
+    return addresses.some(isPrivateAddress) ? "webhook/invalid-endpoint" : null;
+  }
+}
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { WebhookEndpoint } from "../../shared/models.ts";
+import { DeliveryMessage } from "./DeliveryChannel.ts";
+import {
+  DnsResolver,
+  isAllowedWebhookUrl,
+  SIGNATURE_HEADER,
+  WebhookService,
+} from "./WebhookService.ts";
+
+const MESSAGE: DeliveryMessage = {
+  title: "Payment due tomorrow",
+  body: "Pay ₹5,000 on Millennia 1234.",
+  language: "english",
+  payload: "/card_details/card-1",
+  collapseKey: "due-card-1",
+  notifications: [],
+};
+
+function endpoint(changes: Partial<WebhookEndpoint> = {}): WebhookEndpoint {
+  return {
+    id: "endpoint-1",
+    url: "https://hooks.example.com/cards",
+    format: "generic",
+    secret: null,
+    telegram_chat_id: null,
+    ...changes,
+  };
+}
+
+// Resolves the given hosts; other names don't exist.
+function resolver(records: Record<string, string[]>): DnsResolver {
+  return (host, recordType) => {
+    const addresses = (records[host] ?? []).filter((address) =>
+      recordType === "A" ? !address.includes(":") : address.includes(":")
+    );
+    return addresses.length
+      ? Promise.resolve(addresses)
+      : Promise.reject(new Deno.errors.NotFound(`no ${recordType} record`));
+  };
+}
+
+// A webhook service posting to a fake server that records the requests.
+function setup(records: Record<string, string[]>) {
+  const requests: Request[] = [];
+  const service = new WebhookService({
+    resolveDns: resolver(records),
+    fetch: (input, init) => {
+      requests.push(new Request(input, init));
+      return Promise.resolve(new Response(null, { status: 204 }));
+    },
+  });
+  return { service, requests };
+}
+
+Deno.test("allows public https webhook URLs", () => {
+  const allowed = [
+    "https://example.com/hooks/cards",
+    "https://hooks.example.com:8443/path?x=1",
+    "https://203.0.113.7/hook",
+    "https://[2001:db8::1]/hook",
+  ];
+  for (const url of allowed) {
+    assert.equal(isAllowedWebhookUrl(url, "generic"), true, url);
+  }
+});
+
+Deno.test("rejects non-https and private webhook URLs", () => {
+  const rejected = [
+    "http://example.com/hook",
+    "ftp://example.com/hook",
+    "not a url",
+    "https://localhost/hook",
+    "https://api.localhost/hook",
+    "https://printer.local/hook",
+    "https://metadata.google.internal/computeMetadata/v1",
+    "https://metadata/hook",
+    "https://127.0.0.1/hook",
+    "https://2130706433/hook",
+    "https://0x7f.1/hook",
+    "https://0.0.0.0/hook",
+    "https://10.1.2.3/hook",
+    "https://172.20.0.1/hook",
+    "https://192.168.1.10/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://100.64.0.1/hook",
+    "https://[::1]/hook",
+    "https://[::ffff:127.0.0.1]/hook",
+    "https://[fd00::1]/hook",
+    "https://[fe80::1]/hook",
+  ];
+  for (const url of rejected) {
+    assert.equal(isAllowedWebhookUrl(url, "generic"), false, url);
+  }
+});
+
+Deno.test("pins chat formats to their official hosts", () => {
+  assert.equal(
+    isAllowedWebhookUrl("https://hooks.slack.com/services/T/B/X", "slack"),
+    true,
+  );
+  assert.equal(
+    isAllowedWebhookUrl("https://discord.com/api/webhooks/1/abc", "discord"),
+    true,
+  );
+  assert.equal(
+    isAllowedWebhookUrl(
+      "https://api.telegram.org/bot123:abc/sendMessage",
+      "telegram",
+    ),
+    true,
+  );
+  assert.equal(isAllowedWebhookUrl("https://example.com/hook", "slack"), false);
+  assert.equal(
+    isAllowedWebhookUrl("http://hooks.slack.com/services/T/B/X", "slack"),
+    false,
+  );
+  assert.equal(
+    isAllowedWebhookUrl("https://discord.com.example.com/hook", "discord"),
+    false,
+  );
+});
+
+Deno.test("signs the posted body with the endpoint's secret", async () => {
+  const { service, requests } = setup({
+    "hooks.example.com": ["203.0.113.7", "2001:db8::7"],
+  });
+
+  const results = await service.send(MESSAGE, [
+    endpoint({ secret: "shared-secret" }),
+    endpoint({ id: "endpoint-2", url: "https://hooks.example.com/unsigned" }),
+  ]);
+
+  assert.deepEqual(results, [
+    { recipient: "endpoint-1", success: true },
+    { recipient: "endpoint-2", success: true },
+  ]);
+  const [signed, unsigned] = requests.sort((a, b) =>
+    a.url.localeCompare(b.url)
+  );
+  const body = await signed.text();
+  assert.equal(
+    signed.headers.get(SIGNATURE_HEADER),
+    `sha256=${
+      createHmac("sha256", "shared-secret").update(body).digest("hex")
+    }`,
+  );
+  assert.equal(signed.headers.get("Content-Type"), "application/json");
+  assert.equal(JSON.parse(body).title, "Payment due tomorrow");
+  assert.equal(unsigned.headers.get(SIGNATURE_HEADER), null);
+  await unsigned.body?.cancel();
+});
+
+Deno.test("doesn't post to hosts that resolve to private addresses", async () => {
+  const { service, requests } = setup({
+    "internal.example.com": ["10.0.0.5"],
+    "mixed.example.com": ["203.0.113.7", "fd00::1"],
+    "mapped.example.com": ["::ffff:127.0.0.1"],
+  });
+
+  const results = await service.send(MESSAGE, [
+    endpoint({ id: "internal", url: "https://internal.example.com/hook" }),
+    endpoint({ id: "mixed", url: "https://mixed.example.com/hook" }),
+    endpoint({ id: "mapped", url: "https://mapped.example.com/hook" }),
+    endpoint({ id: "missing", url: "https://missing.example.com/hook" }),
+  ]);
+
+  assert.deepEqual(
+    results.map((result) => [result.recipient, result.errorCode]),
+    [
+      ["internal", "webhook/invalid-endpoint"],
+      ["mixed", "webhook/invalid-endpoint"],
+      ["mapped", "webhook/invalid-endpoint"],
+      ["missing", "webhook/network-error"],
+    ],
+  );
+  assert.equal(requests.length, 0);
+});
+
+Deno.test("posts chat formats and IP hosts without resolving them", async () => {
+  const { service, requests } = setup({});
+
+  const results = await service.send(MESSAGE, [
+    endpoint({
+      url: "https://hooks.slack.com/services/T/B/X",
+      format: "slack",
+    }),
+    endpoint({ id: "endpoint-2", url: "https://203.0.113.7/hook" }),
+  ]);
+
+  assert.deepEqual(results.map((result) => result.success), [true, true]);
+  assert.deepEqual(requests.map((request) => request.url).sort(), [
+    "https://203.0.113.7/hook",
+    "https://hooks.slack.com/services/T/B/X",
+  ]);
+  await Promise.all(requests.map((request) => request.body?.cancel()));
+});
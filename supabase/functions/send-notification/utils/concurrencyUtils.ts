@@ -0,0 +1,32 @@
+/**
+ * Runs an async task for each item, with at most `limit` tasks in flight.
+ * Every item is attempted even if others fail; the first error is rethrown
+ * once all tasks have settled.
+ * @param items The items to process.
+ * @param limit The maximum number of concurrent tasks.
+ * @param task The task to run for each item.
+ */
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const errors: unknown[] = [];
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  if (errors.length) {
+    throw errors[0];
+  }
+}
@@ -1,3 +1,5 @@
+import { logger } from "../../shared/logger.ts";
+
 /**
  * A cache to store Intl.NumberFormat instances to avoid recreating them on every call.
  * This improves performance, especially when formatting many numbers in a loop.
@@ -23,10 +25,11 @@ export function formatCurrency(
   } catch (e) {
     // Fallback for invalid currency codes or other errors.
     // Ensuring the function doesn't crash.
-    console.warn(
-      `Could not format currency for code ${currencyCode} and lang ${lang}. Using fallback.`,
-      e,
-    );
+    logger.warn("Could not format currency. Using fallback.", {
+      currencyCode,
+      lang,
+      error: e,
+    });
     return `${amount.toLocaleString(lang)} ${currencyCode.toUpperCase()}`;
   }
 }
@@ -1,14 +1,172 @@
+import { logger } from "../../shared/logger.ts";
+
+/**
+ * The timezone used when a user has not configured one.
+ */
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * A cache to store Intl.DateTimeFormat instances per timezone, as creating them is expensive.
+ */
+const dateTimeFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Creates and caches an Intl.DateTimeFormat instance that renders the calendar date and
+ * wall-clock time in a given timezone. Falls back to UTC for unknown timezones.
+ * @param timeZone The IANA timezone name (e.g., "Asia/Kolkata").
+ * @returns An Intl.DateTimeFormat instance.
+ */
+function getDateTimeFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (dateTimeFormatterCache.has(timeZone)) {
+    return dateTimeFormatterCache.get(timeZone)!;
+  }
+
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+  } catch (e) {
+    logger.warn("Unknown timezone. Falling back to UTC.", {
+      timeZone,
+      error: e,
+    });
+    formatter = getDateTimeFormatter(DEFAULT_TIMEZONE);
+  }
+
+  dateTimeFormatterCache.set(timeZone, formatter);
+  return formatter;
+}
+
+/**
+ * Resolves the calendar date and wall-clock time of an instant in a given timezone.
+ * @param date The instant to convert.
+ * @param timeZone The IANA timezone name. Defaults to UTC.
+ * @returns The local date in "YYYY-MM-DD" format and the local time in "HH:mm" format.
+ */
+export function getLocalDateTime(
+  date: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): { date: string; time: string } {
+  const parts: Record<string, string> = {};
+  for (const part of getDateTimeFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * Returns the calendar day an instant falls on in a given timezone, as a Date at UTC midnight.
+ * This matches how `DATE` columns (e.g., "2025-08-10") are parsed by `new Date()`, so the
+ * result can be compared directly against them.
+ * @param date The instant to convert.
+ * @param timeZone The IANA timezone name. Defaults to UTC.
+ * @returns A Date at UTC midnight of the local calendar day.
+ */
+export function getLocalDate(
+  date: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): Date {
+  return new Date(getLocalDateTime(date, timeZone).date);
+}
+
 /**
  * Calculates the number of days between two dates, ignoring the time component.
  * @param d1 The first date.
  * @param d2 The second date.
+ * @param timeZone The IANA timezone whose calendar days are compared. Defaults to UTC.
  * @returns The number of full days between d1 and d2. A positive number means d2 is after d1.
  */
-export function getDaysDifference(d1: Date, d2: Date): number {
+export function getDaysDifference(
+  d1: Date,
+  d2: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): number {
   const MS_PER_DAY = 1000 * 60 * 60 * 24;
-  // Discard the time and time-zone information for a pure date comparison.
-  const utc1 = Date.UTC(d1.getFullYear(), d1.getMonth(), d1.getDate());
-  const utc2 = Date.UTC(d2.getFullYear(), d2.getMonth(), d2.getDate());
+  // Discard the time of day, keeping only the calendar day in the given timezone.
+  const utc1 = getLocalDate(d1, timeZone).getTime();
+  const utc2 = getLocalDate(d2, timeZone).getTime();
 
   return Math.floor((utc2 - utc1) / MS_PER_DAY);
 }
+
+/**
+ * Adds a number of calendar days to a date.
+ * @param date The date to add to.
+ * @param days The number of days to add. May be negative.
+ * @returns A new Date, `days` days after `date`.
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * Formats a calendar date (a Date at UTC midnight, as parsed from a `DATE` column) for display.
+ * @param date The date to format.
+ * @param lang The BCP 47 language tag (e.g., "en", "hi").
+ * @returns A localized date string (e.g., "10 Aug 2025").
+ */
+export function formatDate(date: Date, lang: string): string {
+  return date.toLocaleDateString(lang, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Resolves the cycle date in a given month for a monthly billing cycle day.
+ * Days past the end of a short month are clamped to its last day (e.g., the 31st
+ * becomes the 28th or 29th in February).
+ * @param year The full year.
+ * @param month The zero-based month. Values outside 0-11 roll over into adjacent years.
+ * @param cycleDay The day of the month the cycle falls on.
+ * @returns A Date at UTC midnight of the cycle date.
+ */
+function getCycleDateInMonth(
+  year: number,
+  month: number,
+  cycleDay: number,
+): Date {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(cycleDay, daysInMonth)));
+}
+
+/**
+ * Treats a billing date as a monthly cycle day and resolves the cycle dates around a day.
+ * @param billingDate Any past or future billing date of the card; only its day of month is used.
+ * @param today The current calendar day (a Date at UTC midnight, see `getLocalDate`).
+ * @returns The most recent cycle date before today, and the next cycle date on or after today.
+ */
+export function getBillingCycleDates(
+  billingDate: Date,
+  today: Date,
+): { previous: Date; next: Date } {
+  const cycleDay = billingDate.getUTCDate();
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+
+  const current = getCycleDateInMonth(year, month, cycleDay);
+  if (current.getTime() >= today.getTime()) {
+    return {
+      previous: getCycleDateInMonth(year, month - 1, cycleDay),
+      next: current,
+    };
+  }
+  return {
+    previous: current,
+    next: getCycleDateInMonth(year, month + 1, cycleDay),
+  };
+}
@@ -0,0 +1,67 @@
+import { SUPPORTED_LANGUAGES } from "../notification/NotificationBuilder.ts";
+
+/**
+ * DryRun selects what a dry run previews. Nothing is sent or recorded.
+ */
+export interface DryRun {
+  // The user to preview, null to page through all users
+  userId: string | null;
+  // Cursor when previewing all users: only users with a greater ID
+  afterUserId: string | null;
+  // The simulated current time
+  now: Date;
+  // Language to preview in instead of each user's own, if any
+  language: string | null;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parses the `?dry_run=true` query parameters of a run, along with the
+ * optional `user_id`, `now`, `language` and `after` parameters.
+ * @param params The query parameters.
+ * @param now The current time, used when no time is simulated.
+ * @returns The dry run, or null if this is a real run.
+ * @throws {RangeError} If a parameter is malformed.
+ */
+export function parseDryRun(
+  params: URLSearchParams,
+  now: Date,
+): DryRun | null {
+  const dryRun = params.get("dry_run");
+  if (dryRun === null || dryRun === "false") {
+    return null;
+  }
+  if (dryRun !== "true") {
+    throw new RangeError("Expected ?dry_run=true or ?dry_run=false");
+  }
+
+  const userId = params.get("user_id");
+  const afterUserId = params.get("after");
+  for (const id of [userId, afterUserId]) {
+    if (id !== null && !UUID_PATTERN.test(id)) {
+      throw new RangeError(`Expected a user ID, got "${id}"`);
+    }
+  }
+
+  const simulatedNow = params.get("now");
+  const time = simulatedNow === null ? now : new Date(simulatedNow);
+  if (isNaN(time.getTime())) {
+    throw new RangeError(
+      `Expected ?now= to be an ISO 8601 timestamp, got "${simulatedNow}"`,
+    );
+  }
+
+  const language = params.get("language");
+  if (
+    language !== null &&
+    !SUPPORTED_LANGUAGES.includes(language.toLowerCase())
+  ) {
+    throw new RangeError(
+      `Expected ?language= to be one of ${SUPPORTED_LANGUAGES.join(", ")}`,
+    );
+  }
+
+  return { userId, afterUserId, now: time, language };
+}
@@ -0,0 +1,111 @@
+import { ReminderSchedule } from "../../shared/models.ts";
+import { DEFAULT_TIMEZONE, getLocalDateTime } from "./dateUtils.ts";
+
+/**
+ * The furthest back a run looks for reminder times it may have missed.
+ */
+export const MAX_REMINDER_LOOKBACK_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Resolves the start of the reminder window for a run: the start of the last
+ * successful run, capped at `MAX_REMINDER_LOOKBACK_MS` before now.
+ * @param now The start time of the current run.
+ * @param lastRunStartedAt The start time of the last successful run, if any.
+ * @returns The instant reminders are considered missed from.
+ */
+export function getReminderWindowStart(
+  now: Date,
+  lastRunStartedAt: string | null | undefined,
+): Date {
+  const earliest = now.getTime() - MAX_REMINDER_LOOKBACK_MS;
+  const lastRun = lastRunStartedAt ? new Date(lastRunStartedAt).getTime() : NaN;
+  return new Date(
+    Number.isNaN(lastRun) ? earliest : Math.max(lastRun, earliest),
+  );
+}
+
+/**
+ * Determines whether a user's reminder should be processed in the current run.
+ * A reminder is due when its local wall-clock time falls between the window start
+ * and now, and the user has not already been processed on their current local day.
+ * When the window opened on the previous local day, that day's reminder counts
+ * too, unless it was processed then: a 23:50 reminder missed between runs at
+ * 23:40 and 00:05 is sent at 00:05, as the reminder of the new day.
+ * Reminders aren't due during the user's quiet hours, and a reminder time within
+ * them moves to their end, so the day's reminders are held rather than skipped.
+ * @param schedule The user's reminder schedule.
+ * @param now The start time of the current run.
+ * @param windowStart The start of the reminder window (see `getReminderWindowStart`).
+ * @returns True if the user's reminders should be processed now.
+ */
+export function isReminderDue(
+  schedule: ReminderSchedule,
+  now: Date,
+  windowStart: Date,
+): boolean {
+  const timeZone = schedule.timezone || DEFAULT_TIMEZONE;
+  const local = getLocalDateTime(now, timeZone);
+  if (schedule.last_digest_date === local.date) {
+    return false; // Already processed today
+  }
+
+  const { quiet_hours_start: quietStart, quiet_hours_end: quietEnd } = schedule;
+  if (isWithinQuietHours(local.time, quietStart, quietEnd)) {
+    return false; // Held until quiet hours end
+  }
+  let reminderTime = schedule.reminder_time.slice(0, 5);
+  if (isWithinQuietHours(reminderTime, quietStart, quietEnd)) {
+    reminderTime = quietEnd!.slice(0, 5);
+  }
+
+  // Reminders set before the window opened were handled by an earlier run.
+  const windowLocal = getLocalDateTime(windowStart, timeZone);
+  if (reminderTime <= local.time) {
+    return windowLocal.date < local.date || reminderTime >= windowLocal.time;
+  }
+  // Not yet reached today, but the window may hold the previous day's reminder.
+  return (
+    windowLocal.date < local.date &&
+    schedule.last_digest_date !== windowLocal.date &&
+    reminderTime >= windowLocal.time
+  );
+}
+
+/**
+ * Checks whether a local wall-clock time falls within a quiet-hours range.
+ * Ranges that end before they start (e.g., 22:00-07:00) wrap past midnight.
+ * @param localTime The local time, in "HH:mm" format.
+ * @param start The start of quiet hours, in "HH:mm" or "HH:mm:ss" format.
+ * @param end The end of quiet hours (exclusive), in "HH:mm" or "HH:mm:ss" format.
+ * @returns True if quiet hours are configured and the time is within them.
+ */
+export function isWithinQuietHours(
+  localTime: string,
+  start: string | null | undefined,
+  end: string | null | undefined,
+): boolean {
+  if (!start || !end) {
+    return false;
+  }
+  const from = start.slice(0, 5);
+  const to = end.slice(0, 5);
+  if (from === to) {
+    return false;
+  }
+  return from < to
+    ? localTime >= from && localTime < to
+    : localTime >= from || localTime < to;
+}
+
+/**
+ * Checks whether a snooze is still active on a local date.
+ * @param snoozeUntil The last snoozed date, in "YYYY-MM-DD" format, if any.
+ * @param localDate The local date, in "YYYY-MM-DD" format.
+ * @returns True if notifications are snoozed on that date.
+ */
+export function isSnoozed(
+  snoozeUntil: string | null | undefined,
+  localDate: string,
+): boolean {
+  return Boolean(snoozeUntil) && snoozeUntil! >= localDate;
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { ReminderSchedule } from "../../shared/models.ts";
+import { isReminderDue } from "./scheduleUtils.ts";
+
+function schedule(changes: Partial<ReminderSchedule> = {}): ReminderSchedule {
+  return {
+    user_id: "user-1",
+    reminder_time: "09:00:00",
+    timezone: "Asia/Kolkata",
+    last_digest_date: null,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    ...changes,
+  };
+}
+
+// Instants given as Asia/Kolkata wall-clock times (UTC+05:30)
+function ist(dateTime: string): Date {
+  return new Date(`${dateTime}:00+05:30`);
+}
+
+Deno.test("is due once the reminder time falls within the window", () => {
+  const due = (reminderTime: string, from: string, to: string) =>
+    isReminderDue(
+      schedule({ reminder_time: reminderTime }),
+      ist(to),
+      ist(from),
+    );
+
+  assert.equal(due("09:00:00", "2025-06-10T08:55", "2025-06-10T09:05"), true);
+  assert.equal(due("09:00:00", "2025-06-10T09:00", "2025-06-10T09:05"), true);
+  // Handled by an earlier run, or not reached yet
+  assert.equal(due("09:00:00", "2025-06-10T09:01", "2025-06-10T09:05"), false);
+  assert.equal(due("09:10:00", "2025-06-10T08:55", "2025-06-10T09:05"), false);
+});
+
+Deno.test("catches the previous day's reminder when the window crosses midnight", () => {
+  const windowStart = ist("2025-06-09T23:40");
+  const now = ist("2025-06-10T00:05");
+
+  assert.equal(
+    isReminderDue(schedule({ reminder_time: "23:50:00" }), now, windowStart),
+    true,
+  );
+  assert.equal(
+    isReminderDue(schedule({ reminder_time: "00:02:00" }), now, windowStart),
+    true,
+  );
+  // Before the window opened, or after this run
+  assert.equal(
+    isReminderDue(schedule({ reminder_time: "23:30:00" }), now, windowStart),
+    false,
+  );
+  assert.equal(
+    isReminderDue(schedule({ reminder_time: "09:00:00" }), now, windowStart),
+    false,
+  );
+  // Already processed on the previous day, or today
+  for (const lastDigestDate of ["2025-06-09", "2025-06-10"]) {
+    assert.equal(
+      isReminderDue(
+        schedule({
+          reminder_time: "23:50:00",
+          last_digest_date: lastDigestDate,
+        }),
+        now,
+        windowStart,
+      ),
+      false,
+    );
+  }
+});
+
+Deno.test("holds reminders within quiet hours until they end", () => {
+  const quiet = schedule({
+    reminder_time: "23:30:00",
+    quiet_hours_start: "22:00:00",
+    quiet_hours_end: "07:00:00",
+  });
+
+  assert.equal(
+    isReminderDue(quiet, ist("2025-06-09T23:35"), ist("2025-06-09T23:25")),
+    false,
+  );
+  assert.equal(
+    isReminderDue(quiet, ist("2025-06-10T07:05"), ist("2025-06-10T06:55")),
+    true,
+  );
+});
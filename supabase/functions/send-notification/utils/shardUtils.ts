@@ -0,0 +1,72 @@
+/**
+ * Shard selects one of `count` partitions of the user base, numbered from 0.
+ */
+export interface Shard {
+  index: number;
+  count: number;
+}
+
+/**
+ * Shards split the space of the first 32 bits of user IDs. User IDs are random
+ * (v4) UUIDs, so each shard gets an even share of users.
+ */
+const SHARD_KEY_SPACE = 2 ** 32;
+
+/**
+ * Parses the `?shard=i&of=n` query parameters of a run.
+ * @param params The query parameters.
+ * @returns The shard, or null if the run is not sharded.
+ * @throws {RangeError} If the parameters are incomplete or out of range.
+ */
+export function parseShard(params: URLSearchParams): Shard | null {
+  const shard = params.get("shard");
+  const of = params.get("of");
+  if (shard === null && of === null) {
+    return null;
+  }
+  const index = Number(shard);
+  const count = Number(of);
+  if (
+    shard === null || of === null || !Number.isInteger(index) ||
+    !Number.isInteger(count) || count < 1 || index < 0 || index >= count
+  ) {
+    throw new RangeError(
+      "Expected ?shard=i&of=n with integers 0 <= i < n",
+    );
+  }
+  return { index, count };
+}
+
+/**
+ * Resolves the range of user IDs a shard covers.
+ * @param shard The shard.
+ * @returns The inclusive lower and exclusive upper bound, null when unbounded.
+ */
+export function getShardRange(
+  shard: Shard,
+): { fromUserId: string | null; toUserId: string | null } {
+  return {
+    fromUserId: getShardBoundary(shard.index, shard.count),
+    toUserId: getShardBoundary(shard.index + 1, shard.count),
+  };
+}
+
+/**
+ * Names the runs of a shard, so each shard keeps its own run history.
+ * @param jobName The name of the job.
+ * @param shard The shard, or null if the run is not sharded.
+ * @returns The job name to record runs under.
+ */
+export function getShardJobName(jobName: string, shard: Shard | null): string {
+  return shard ? `${jobName}:shard-${shard.index}-of-${shard.count}` : jobName;
+}
+
+function getShardBoundary(index: number, count: number): string | null {
+  if (index <= 0 || index >= count) {
+    return null;
+  }
+  const prefix = Math.floor((index * SHARD_KEY_SPACE) / count)
+    .toString(16)
+    .padStart(8, "0");
+  return `${prefix}-0000-0000-0000-000000000000`;
+}
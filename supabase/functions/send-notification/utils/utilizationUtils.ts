@@ -0,0 +1,40 @@
+/**
+ * Escalation levels (in percent) that always trigger an alert once crossed,
+ * in addition to the user's own threshold.
+ */
+const ESCALATION_TIERS = [50, 90];
+
+/**
+ * Calculates how much of the credit limit is in use.
+ * @param used The amount of credit currently in use.
+ * @param limit The credit limit of the card.
+ * @returns The utilization as a whole percentage, or null if the limit is unknown.
+ */
+export function getUtilizationPercent(
+  used: number | null | undefined,
+  limit: number | null | undefined,
+): number | null {
+  if (!limit || limit <= 0 || used == null) {
+    return null;
+  }
+  return Math.round((used / limit) * 100);
+}
+
+/**
+ * Resolves the highest alert tier a utilization percentage has crossed.
+ * Tiers are the user's threshold followed by every escalation level above it.
+ * @param utilizationPercent The current utilization, in percent.
+ * @param threshold The user's utilization alert threshold, in percent.
+ * @returns The crossed tier (e.g. 30, 50 or 90), or 0 if below the threshold.
+ */
+export function getUtilizationTier(
+  utilizationPercent: number,
+  threshold: number,
+): number {
+  const tiers = [
+    threshold,
+    ...ESCALATION_TIERS.filter((tier) => tier > threshold),
+  ];
+  return tiers.filter((tier) => tier > 0 && utilizationPercent >= tier).pop() ??
+    0;
+}
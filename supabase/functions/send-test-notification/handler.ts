@@ -0,0 +1,132 @@
+import { DataRepository } from "../shared/DataRepository.ts";
+import { DeliveryStatus } from "../shared/models.ts";
+import { logger } from "../shared/logger.ts";
+import {
+  DeliveryChannel,
+  isInvalidTokenError,
+} from "../send-notification/services/DeliveryChannel.ts";
+import { NotificationMessageBuilder } from "../send-notification/notification/NotificationBuilder.ts";
+
+/**
+ * Minimum time between two test notifications of the same user.
+ */
+export const DEFAULT_COOLDOWN_MS = 1000 * 60;
+
+/**
+ * TestDeliveryResult reports how a test notification fared on one device.
+ */
+export interface TestDeliveryResult {
+  // The end of the device token, enough to tell a user's devices apart
+  device: string;
+  platform: string | null;
+  status: DeliveryStatus;
+  errorCode: string | null;
+}
+
+/**
+ * Creates the handler that sends a test push to the calling user's devices.
+ * The caller is identified by the Supabase access token in the `Authorization`
+ * header, so users can only reach their own devices.
+ * @param repository The data access repository.
+ * @param push The push channel to send through.
+ * @param cooldownMs Minimum time between two test notifications of a user.
+ * @returns A request handler for `Deno.serve`.
+ */
+export function createTestNotificationHandler(
+  repository: DataRepository,
+  push: DeliveryChannel,
+  cooldownMs = DEFAULT_COOLDOWN_MS,
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    // Only allow POST requests
+    if (req.method !== "POST") {
+      return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
+        headers: { "Content-Type": "application/json" },
+        status: 405,
+      });
+    }
+
+    if (!repository.isInitialized() || !push.isInitialized()) {
+      return new Response("Firebase/Supabase not initialized", {
+        status: 500,
+      });
+    }
+
+    const accessToken = req.headers.get("Authorization")?.match(
+      /^Bearer (.+)$/i,
+    )?.[1];
+    const userId = accessToken
+      ? await repository.getUserIdByAccessToken(accessToken)
+      : null;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Missing or invalid access token" }),
+        { headers: { "Content-Type": "application/json" }, status: 401 },
+      );
+    }
+
+    const isAllowed = await repository.claimTestNotification(
+      userId,
+      cooldownMs,
+    );
+    if (!isAllowed) {
+      return new Response(
+        JSON.stringify({
+          error: "A test notification was sent recently, try again later",
+        }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(Math.ceil(cooldownMs / 1000)),
+          },
+          status: 429,
+        },
+      );
+    }
+
+    const tokens = await repository.getDeviceTokens(userId);
+    const language = await repository.getUserLanguage(userId) ?? "english";
+    const builder = new NotificationMessageBuilder(language);
+    const results = await push.send(
+      {
+        ...builder.testNotification(),
+        language,
+        payload: "/overview",
+        collapseKey: `test-${userId}`,
+        notifications: [],
+      },
+      tokens.map((t) => t.device_token),
+    );
+
+    const staleTokens = results
+      .filter((r) => !r.success && isInvalidTokenError(r.errorCode))
+      .map((r) => r.recipient);
+    await repository.deleteStaleTokens(staleTokens);
+
+    const platforms = new Map(tokens.map((t) => [t.device_token, t.platform]));
+    const devices: TestDeliveryResult[] = results.map((result) => ({
+      device: maskToken(result.recipient),
+      platform: platforms.get(result.recipient) ?? null,
+      status: result.success
+        ? "delivered"
+        : staleTokens.includes(result.recipient)
+        ? "token_removed"
+        : "failed",
+      errorCode: result.errorCode ?? null,
+    }));
+    const delivered = devices.filter((d) => d.status === "delivered").length;
+    logger.info("🧪 Test notification sent", {
+      userId,
+      delivered,
+      devices: devices.length,
+    });
+    return new Response(JSON.stringify({ delivered, devices }), {
+      headers: { "Content-Type": "application/json" },
+      status: 200,
+    });
+  };
+}
+
+function maskToken(token: string): string {
+  return `…${token.slice(-8)}`;
+}
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import {
+  InMemoryRepository,
+  RepositoryFixtures,
+} from "../shared/InMemoryRepository.ts";
+import { InMemoryDeliveryChannel } from "../send-notification/services/InMemoryDeliveryChannel.ts";
+import {
+  createTestNotificationHandler,
+  TestDeliveryResult,
+} from "./handler.ts";
+
+const NOW = new Date("2025-06-10T09:00:00Z");
+
+const FIXTURES: RepositoryFixtures = {
+  sessions: [{ access_token: "token-of-user-1", user_id: "user-1" }],
+  deviceTokens: [
+    {
+      user_id: "user-1",
+      device_token: "android-device-token-0001",
+      platform: "android",
+    },
+    {
+      user_id: "user-1",
+      device_token: "ios-device-token-00000002",
+      platform: "ios",
+    },
+    {
+      user_id: "user-2",
+      device_token: "other-user-device-token-3",
+      platform: "android",
+    },
+  ],
+};
+
+function setup(push = new InMemoryDeliveryChannel()) {
+  let now = NOW;
+  const repository = new InMemoryRepository(FIXTURES, () => now);
+  const handler = createTestNotificationHandler(repository, push);
+  const request = (accessToken: string | null = "token-of-user-1") =>
+    handler(
+      new Request("http://localhost/", {
+        method: "POST",
+        headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+      }),
+    );
+  const advance = (ms: number) => {
+    now = new Date(now.getTime() + ms);
+  };
+  return { repository, push, request, advance };
+}
+
+Deno.test("rejects requests without a valid access token", async () => {
+  const { request, push } = setup();
+
+  for (const accessToken of [null, "forged-token"]) {
+    const response = await request(accessToken);
+    assert.equal(response.status, 401);
+    await response.body?.cancel();
+  }
+  assert.equal(push.sent.length, 0);
+});
+
+Deno.test("sends to the caller's devices and reports masked results", async () => {
+  const push = new InMemoryDeliveryChannel()
+    .simulate("ios-device-token-00000002", "invalid-token");
+  const { request, repository } = setup(push);
+
+  const response = await request();
+  const body: { delivered: number; devices: TestDeliveryResult[] } =
+    await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(push.sent.length, 1);
+  assert.deepEqual(
+    push.sent[0].results.map((result) => result.recipient),
+    ["android-device-token-0001", "ios-device-token-00000002"],
+  );
+  assert.equal(body.delivered, 1);
+  assert.deepEqual(body.devices, [
+    {
+      device: "…ken-0001",
+      platform: "android",
+      status: "delivered",
+      errorCode: null,
+    },
+    {
+      device: "…00000002",
+      platform: "ios",
+      status: "token_removed",
+      errorCode: "messaging/registration-token-not-registered",
+    },
+  ]);
+  assert.doesNotMatch(JSON.stringify(body), /device-token/);
+  assert.deepEqual(
+    repository.deviceTokens.map((token) => token.device_token),
+    ["android-device-token-0001", "other-user-device-token-3"],
+  );
+});
+
+Deno.test("rate limits test notifications per user", async () => {
+  const { request, advance, push, repository } = setup();
+
+  assert.equal((await request()).status, 200);
+
+  advance(1000 * 30);
+  const limited = await request();
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get("Retry-After"), "60");
+  await limited.body?.cancel();
+  assert.equal(push.sent.length, 1);
+
+  advance(1000 * 30);
+  assert.equal((await request()).status, 200);
+  assert.equal(push.sent.length, 2);
+  // The cooldown is kept per user, apart from the scheduled jobs' locks.
+  assert.equal(repository.testNotificationCooldowns.length, 1);
+  assert.equal(repository.jobLocks.length, 0);
+});
@@ -0,0 +1,18 @@
+import { SupabaseService } from "../shared/SupabaseService.ts";
+import { FirebaseService } from "../send-notification/services/FirebaseService.ts";
+import { createTestNotificationHandler } from "./handler.ts";
+
+// --- Service Initialization ---
+const supabaseService = new SupabaseService(
+  Deno.env.get("SUPABASE_URL"),
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+);
+
+const firebaseService = new FirebaseService(
+  Deno.env.get("FIREBASE_SERVICE_ACCOUNT_JSON"),
+);
+
+/**
+ * Main handler for test notifications requested from the app.
+ */
+Deno.serve(createTestNotificationHandler(supabaseService, firebaseService));
@@ -0,0 +1,104 @@
+import {
+  Bank,
+  Card,
+  DeviceToken,
+  JobRun,
+  JobRunReport,
+  JobRunStatus,
+  NotificationDelivery,
+  NotificationLog,
+  OutboxEntry,
+  ProcessingStatus,
+  ReminderSchedule,
+  SchedulePage,
+  UserNotificationData,
+  WebhookEndpoint,
+} from "./models.ts";
+
+/**
+ * DataRepository is the data-access contract used by the scheduled functions.
+ * `SupabaseService` implements it against the database, and `InMemoryRepository`
+ * implements it over fixtures for offline tests.
+ */
+export interface DataRepository {
+  /**
+   * Checks if the repository is ready to serve queries.
+   */
+  isInitialized(): boolean;
+
+  // --- Notification runs ---
+
+  getReminderSchedules(page: SchedulePage): Promise<ReminderSchedule[]>;
+  claimUserDigests(userIds: string[], localDate: string): Promise<string[]>;
+  releaseUserDigests(userIds: string[], localDate: string): Promise<void>;
+  getLastSuccessfulJobRun(jobName: string): Promise<JobRun | null>;
+  getResumableJobRun(jobName: string, since: Date): Promise<JobRun | null>;
+  startJobRun(
+    jobName: string,
+    startedAt: Date,
+    windowStart: Date | null
+  ): Promise<string | null>;
+  saveJobRunProgress(
+    runId: string,
+    cursor: string | null,
+    report: JobRunReport
+  ): Promise<void>;
+  completeJobRun(
+    runId: string,
+    status: JobRunStatus,
+    report: JobRunReport
+  ): Promise<void>;
+  acquireJobLock(
+    jobName: string,
+    holder: string,
+    ttlMs: number
+  ): Promise<boolean>;
+  releaseJobLock(jobName: string, holder: string): Promise<void>;
+
+  // --- User data ---
+
+  getUserNotificationData(
+    userIds: string[]
+  ): Promise<Map<string, UserNotificationData>>;
+  updateCardUtilizationTiers(tiers: Map<string, number>): Promise<void>;
+  getDeviceTokens(userId: string): Promise<DeviceToken[]>;
+  getUserLanguage(userId: string): Promise<string | null>;
+  getUserIdByAccessToken(accessToken: string): Promise<string | null>;
+  claimTestNotification(userId: string, cooldownMs: number): Promise<boolean>;
+  getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]>;
+  deleteStaleTokens(tokens: string[]): Promise<void>;
+
+  // --- Notification logs ---
+
+  claimDedupeKeys(keys: string[]): Promise<string[]>;
+  pruneDedupeKeys(before: Date): Promise<number>;
+  insertNotificationLog(logs: NotificationLog[]): Promise<void>;
+  insertNotificationDeliveries(
+    deliveries: NotificationDelivery[]
+  ): Promise<void>;
+  markNotificationLogsSent(logIds: string[]): Promise<void>;
+
+  // --- Delivery outbox ---
+
+  enqueueOutboxEntries(entries: Omit<OutboxEntry, "id">[]): Promise<void>;
+  getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]>;
+  updateOutboxEntry(
+    id: string,
+    changes: Pick<
+      OutboxEntry,
+      "attempts" | "status" | "next_retry_at" | "last_error"
+    >
+  ): Promise<void>;
+
+  // --- Card summaries ---
+
+  upsertCreditCardSummary(summaryData: {
+    card_id: string;
+    markdown_summary?: string;
+    status: ProcessingStatus;
+    error_message?: string | null;
+  }): Promise<void>;
+  getCardsWithoutSummary(): Promise<Card[]>;
+  getBankById(id: string): Promise<Bank | null>;
+  getUserBankById(id: string): Promise<Bank | null>;
+}
@@ -0,0 +1,581 @@
+import { DataRepository } from "./DataRepository.ts";
+import {
+  Bank,
+  Card,
+  CreditCardSummary,
+  DeviceToken,
+  JobRun,
+  JobRunReport,
+  JobRunStatus,
+  LatestPayment,
+  NotificationDelivery,
+  NotificationLog,
+  OutboxEntry,
+  Payment,
+  ProcessingStatus,
+  ReminderSchedule,
+  SchedulePage,
+  Setting,
+  UserNotificationData,
+  WebhookEndpoint,
+} from "./models.ts";
+
+/**
+ * Fixture rows for a user's settings, mirroring the `settings` table.
+ */
+export type SettingFixture = Setting &
+  ReminderSchedule & { notifications_enabled: boolean };
+
+/**
+ * Fixture rows for cards, mirroring the `cards` table.
+ */
+export type CardFixture = Card & { user_id: string };
+
+/**
+ * Fixture rows for payments, mirroring the `payments` table. The card is
+ * resolved from `card_id` when payments are read.
+ */
+export type PaymentFixture = Omit<Payment, "cards"> & {
+  user_id: string;
+  card_id: string;
+};
+
+/**
+ * Fixture rows for webhook endpoints, mirroring the `webhook_endpoints` table.
+ */
+export type WebhookEndpointFixture = WebhookEndpoint & {
+  user_id: string;
+  enabled: boolean;
+};
+
+/**
+ * Fixture rows for job locks, mirroring the `job_locks` table.
+ */
+export interface JobLockFixture {
+  job_name: string;
+  holder: string;
+  locked_until: string;
+}
+
+/**
+ * Fixture rows for reserved dedupe keys, mirroring the
+ * `notification_dedupe_keys` table.
+ */
+export interface DedupeKeyFixture {
+  dedupe_key: string;
+  created_at: string;
+}
+
+/**
+ * Fixture rows for test notification cooldowns, mirroring the
+ * `test_notification_cooldowns` table.
+ */
+export interface TestNotificationCooldownFixture {
+  user_id: string;
+  available_at: string;
+}
+
+/**
+ * RepositoryFixtures seeds an InMemoryRepository. Every table is optional.
+ */
+export interface RepositoryFixtures {
+  settings?: SettingFixture[];
+  cards?: CardFixture[];
+  payments?: PaymentFixture[];
+  deviceTokens?: (DeviceToken & { user_id: string })[];
+  users?: { id: string; email: string | null }[];
+  // Valid access tokens and the users they were issued to
+  sessions?: { access_token: string; user_id: string }[];
+  webhookEndpoints?: WebhookEndpointFixture[];
+  notificationLogs?: NotificationLog[];
+  notificationDeliveries?: NotificationDelivery[];
+  outbox?: OutboxEntry[];
+  jobRuns?: JobRun[];
+  jobLocks?: JobLockFixture[];
+  dedupeKeys?: DedupeKeyFixture[];
+  testNotificationCooldowns?: TestNotificationCooldownFixture[];
+  defaultBanks?: Bank[];
+  banks?: Bank[];
+  summaries?: CreditCardSummary[];
+}
+
+/**
+ * A DataRepository backed by in-memory fixtures, for deterministic offline tests.
+ * Rows are copied on construction and exposed for assertions; writes go to the
+ * same arrays. Timestamps come from the injected clock.
+ */
+export class InMemoryRepository implements DataRepository {
+  readonly settings: SettingFixture[];
+  readonly cards: CardFixture[];
+  readonly payments: PaymentFixture[];
+  readonly deviceTokens: (DeviceToken & { user_id: string })[];
+  readonly users: { id: string; email: string | null }[];
+  readonly sessions: { access_token: string; user_id: string }[];
+  readonly webhookEndpoints: WebhookEndpointFixture[];
+  readonly notificationLogs: NotificationLog[];
+  readonly notificationDeliveries: NotificationDelivery[];
+  readonly outbox: OutboxEntry[];
+  readonly jobRuns: JobRun[];
+  readonly jobLocks: JobLockFixture[];
+  readonly dedupeKeys: DedupeKeyFixture[];
+  readonly testNotificationCooldowns: TestNotificationCooldownFixture[];
+  readonly defaultBanks: Bank[];
+  readonly banks: Bank[];
+  readonly summaries: CreditCardSummary[];
+
+  /**
+   * Creates an instance of InMemoryRepository.
+   * @param fixtures The rows to seed the repository with.
+   * @param clock Returns the current time, e.g. a frozen date in tests.
+   */
+  constructor(
+    fixtures: RepositoryFixtures = {},
+    private clock: () => Date = () => new Date()
+  ) {
+    this.settings = structuredClone(fixtures.settings ?? []);
+    this.cards = structuredClone(fixtures.cards ?? []);
+    this.payments = structuredClone(fixtures.payments ?? []);
+    this.deviceTokens = structuredClone(fixtures.deviceTokens ?? []);
+    this.users = structuredClone(fixtures.users ?? []);
+    this.sessions = structuredClone(fixtures.sessions ?? []);
+    this.webhookEndpoints = structuredClone(fixtures.webhookEndpoints ?? []);
+    this.notificationLogs = structuredClone(fixtures.notificationLogs ?? []);
+    this.notificationDeliveries = structuredClone(
+      fixtures.notificationDeliveries ?? []
+    );
+    this.outbox = structuredClone(fixtures.outbox ?? []);
+    this.jobRuns = structuredClone(fixtures.jobRuns ?? []);
+    this.jobLocks = structuredClone(fixtures.jobLocks ?? []);
+    this.dedupeKeys = structuredClone(fixtures.dedupeKeys ?? []);
+    this.testNotificationCooldowns = structuredClone(
+      fixtures.testNotificationCooldowns ?? []
+    );
+    this.defaultBanks = structuredClone(fixtures.defaultBanks ?? []);
+    this.banks = structuredClone(fixtures.banks ?? []);
+    this.summaries = structuredClone(fixtures.summaries ?? []);
+  }
+
+  isInitialized(): boolean {
+    return true;
+  }
+
+  getReminderSchedules(page: SchedulePage): Promise<ReminderSchedule[]> {
+    return Promise.resolve(
+      this.settings
+        .filter(
+          (s) =>
+            s.notifications_enabled &&
+            s.reminder_time &&
+            (!page.afterUserId || s.user_id > page.afterUserId) &&
+            (!page.fromUserId || s.user_id >= page.fromUserId) &&
+            (!page.toUserId || s.user_id < page.toUserId)
+        )
+        .sort((a, b) => a.user_id.localeCompare(b.user_id))
+        .slice(0, page.limit)
+        .map(
+          ({
+            user_id,
+            reminder_time,
+            timezone,
+            last_digest_date,
+            quiet_hours_start,
+            quiet_hours_end,
+          }) => ({
+            user_id,
+            reminder_time,
+            timezone,
+            last_digest_date,
+            quiet_hours_start,
+            quiet_hours_end,
+          })
+        )
+    );
+  }
+
+  claimUserDigests(userIds: string[], localDate: string): Promise<string[]> {
+    const claimed = this.settings.filter(
+      (s) =>
+        userIds.includes(s.user_id) &&
+        (!s.last_digest_date || s.last_digest_date < localDate)
+    );
+    for (const setting of claimed) {
+      setting.last_digest_date = localDate;
+    }
+    return Promise.resolve(claimed.map((s) => s.user_id));
+  }
+
+  releaseUserDigests(userIds: string[], localDate: string): Promise<void> {
+    for (const setting of this.settings) {
+      if (
+        userIds.includes(setting.user_id) &&
+        setting.last_digest_date === localDate
+      ) {
+        setting.last_digest_date = null;
+      }
+    }
+    return Promise.resolve();
+  }
+
+  getLastSuccessfulJobRun(jobName: string): Promise<JobRun | null> {
+    const runs = this.jobRuns
+      .filter((r) => r.job_name === jobName && r.status === "completed")
+      .sort((a, b) => b.started_at.localeCompare(a.started_at));
+    return Promise.resolve(runs[0] ?? null);
+  }
+
+  getResumableJobRun(jobName: string, since: Date): Promise<JobRun | null> {
+    const runs = this.jobRuns
+      .filter(
+        (r) =>
+          r.job_name === jobName &&
+          r.status === "running" &&
+          new Date(r.started_at).getTime() >= since.getTime()
+      )
+      .sort((a, b) => b.started_at.localeCompare(a.started_at));
+    return Promise.resolve(runs[0] ?? null);
+  }
+
+  startJobRun(
+    jobName: string,
+    startedAt: Date,
+    windowStart: Date | null
+  ): Promise<string | null> {
+    const id = crypto.randomUUID();
+    this.jobRuns.push({
+      id,
+      job_name: jobName,
+      status: "running",
+      started_at: startedAt.toISOString(),
+      completed_at: null,
+      window_start: windowStart?.toISOString() ?? null,
+      cursor: null,
+      report: null,
+    });
+    return Promise.resolve(id);
+  }
+
+  saveJobRunProgress(
+    runId: string,
+    cursor: string | null,
+    report: JobRunReport
+  ): Promise<void> {
+    const run = this.jobRuns.find((r) => r.id === runId);
+    if (run) {
+      run.cursor = cursor;
+      run.report = structuredClone(report);
+    }
+    return Promise.resolve();
+  }
+
+  completeJobRun(
+    runId: string,
+    status: JobRunStatus,
+    report: JobRunReport
+  ): Promise<void> {
+    const run = this.jobRuns.find((r) => r.id === runId);
+    if (run) {
+      run.status = status;
+      run.completed_at = this.clock().toISOString();
+      run.report = structuredClone(report);
+    }
+    return Promise.resolve();
+  }
+
+  acquireJobLock(
+    jobName: string,
+    holder: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    const now = this.clock();
+    const lock = this.jobLocks.find((l) => l.job_name === jobName);
+    if (lock && new Date(lock.locked_until).getTime() > now.getTime()) {
+      return Promise.resolve(false);
+    }
+    const lockedUntil = new Date(now.getTime() + ttlMs).toISOString();
+    if (lock) {
+      Object.assign(lock, { holder, locked_until: lockedUntil });
+    } else {
+      this.jobLocks.push({
+        job_name: jobName,
+        holder,
+        locked_until: lockedUntil,
+      });
+    }
+    return Promise.resolve(true);
+  }
+
+  releaseJobLock(jobName: string, holder: string): Promise<void> {
+    const index = this.jobLocks.findIndex(
+      (l) => l.job_name === jobName && l.holder === holder
+    );
+    if (index >= 0) {
+      this.jobLocks.splice(index, 1);
+    }
+    return Promise.resolve();
+  }
+
+  async getUserNotificationData(
+    userIds: string[]
+  ): Promise<Map<string, UserNotificationData>> {
+    const result = new Map<string, UserNotificationData>();
+    for (const setting of this.settings) {
+      const userId = setting.user_id;
+      if (!userIds.includes(userId) || !setting.notifications_enabled) {
+        continue;
+      }
+      result.set(userId, {
+        setting,
+        cards: this.cards.filter((c) => c.user_id === userId && !c.is_archived),
+        payments: this.getUnpaidPayments(userId),
+        latestPayments: this.getLatestPayments(userId),
+        tokens: await this.getDeviceTokens(userId),
+        email: setting.notification_channels?.includes("email")
+          ? (this.users.find((u) => u.id === userId)?.email ?? null)
+          : null,
+        webhookEndpoints: await this.getWebhookEndpoints(userId),
+        lastLogs: this.getLatestSentLogs(userId),
+      });
+    }
+    return result;
+  }
+
+  updateCardUtilizationTiers(tiers: Map<string, number>): Promise<void> {
+    for (const card of this.cards) {
+      const tier = tiers.get(card.id);
+      if (tier !== undefined) {
+        card.utilization_alert_tier = tier;
+      }
+    }
+    return Promise.resolve();
+  }
+
+  getDeviceTokens(userId: string): Promise<DeviceToken[]> {
+    return Promise.resolve(
+      this.deviceTokens
+        .filter((t) => t.user_id === userId)
+        .map(({ device_token, platform }) => ({ device_token, platform }))
+    );
+  }
+
+  getUserLanguage(userId: string): Promise<string | null> {
+    return Promise.resolve(
+      this.settings.find((s) => s.user_id === userId)?.language ?? null
+    );
+  }
+
+  getUserIdByAccessToken(accessToken: string): Promise<string | null> {
+    return Promise.resolve(
+      this.sessions.find((s) => s.access_token === accessToken)?.user_id ?? null
+    );
+  }
+
+  claimTestNotification(userId: string, cooldownMs: number): Promise<boolean> {
+    const now = this.clock();
+    const cooldown = this.testNotificationCooldowns.find(
+      (c) => c.user_id === userId
+    );
+    if (cooldown && new Date(cooldown.available_at).getTime() > now.getTime()) {
+      return Promise.resolve(false);
+    }
+    const availableAt = new Date(now.getTime() + cooldownMs).toISOString();
+    if (cooldown) {
+      cooldown.available_at = availableAt;
+    } else {
+      this.testNotificationCooldowns.push({
+        user_id: userId,
+        available_at: availableAt,
+      });
+    }
+    return Promise.resolve(true);
+  }
+
+  getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    return Promise.resolve(
+      this.webhookEndpoints
+        .filter((e) => e.user_id === userId && e.enabled)
+        .map(({ id, url, format, secret, telegram_chat_id }) => ({
+          id,
+          url,
+          format,
+          secret,
+          telegram_chat_id,
+        }))
+    );
+  }
+
+  deleteStaleTokens(tokens: string[]): Promise<void> {
+    const remaining = this.deviceTokens.filter(
+      (t) => !tokens.includes(t.device_token)
+    );
+    this.deviceTokens.splice(0, this.deviceTokens.length, ...remaining);
+    return Promise.resolve();
+  }
+
+  claimDedupeKeys(keys: string[]): Promise<string[]> {
+    const claimed = [...new Set(keys)].filter(
+      (key) => !this.dedupeKeys.some((k) => k.dedupe_key === key)
+    );
+    const createdAt = this.clock().toISOString();
+    this.dedupeKeys.push(
+      ...claimed.map((key) => ({ dedupe_key: key, created_at: createdAt }))
+    );
+    return Promise.resolve(claimed);
+  }
+
+  pruneDedupeKeys(before: Date): Promise<number> {
+    const remaining = this.dedupeKeys.filter(
+      (k) => k.created_at >= before.toISOString()
+    );
+    const pruned = this.dedupeKeys.length - remaining.length;
+    this.dedupeKeys.splice(0, this.dedupeKeys.length, ...remaining);
+    return Promise.resolve(pruned);
+  }
+
+  insertNotificationLog(logs: NotificationLog[]): Promise<void> {
+    for (const { deliveries, ...log } of logs) {
+      this.notificationLogs.push(log);
+      this.notificationDeliveries.push(...(deliveries ?? []));
+    }
+    return Promise.resolve();
+  }
+
+  insertNotificationDeliveries(
+    deliveries: NotificationDelivery[]
+  ): Promise<void> {
+    this.notificationDeliveries.push(...deliveries);
+    return Promise.resolve();
+  }
+
+  markNotificationLogsSent(logIds: string[]): Promise<void> {
+    for (const log of this.notificationLogs) {
+      if (logIds.includes(log.id)) {
+        log.status = "sent";
+        log.error_code = null;
+      }
+    }
+    return Promise.resolve();
+  }
+
+  enqueueOutboxEntries(entries: Omit<OutboxEntry, "id">[]): Promise<void> {
+    this.outbox.push(
+      ...entries.map((entry) => ({ ...entry, id: crypto.randomUUID() }))
+    );
+    return Promise.resolve();
+  }
+
+  getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]> {
+    return Promise.resolve(
+      this.outbox
+        .filter(
+          (e) =>
+            e.status === "pending" &&
+            new Date(e.next_retry_at).getTime() <= now.getTime()
+        )
+        .sort((a, b) => a.next_retry_at.localeCompare(b.next_retry_at))
+        .slice(0, limit)
+    );
+  }
+
+  updateOutboxEntry(
+    id: string,
+    changes: Pick<
+      OutboxEntry,
+      "attempts" | "status" | "next_retry_at" | "last_error"
+    >
+  ): Promise<void> {
+    const entry = this.outbox.find((e) => e.id === id);
+    if (entry) {
+      Object.assign(entry, changes);
+    }
+    return Promise.resolve();
+  }
+
+  upsertCreditCardSummary(summaryData: {
+    card_id: string;
+    markdown_summary?: string;
+    status: ProcessingStatus;
+    error_message?: string | null;
+  }): Promise<void> {
+    const summary: CreditCardSummary = {
+      id: crypto.randomUUID(),
+      card_id: summaryData.card_id,
+      markdown_summary: summaryData.markdown_summary || "",
+      status: summaryData.status,
+      error_message: summaryData.error_message || null,
+      user_liked: null,
+      updated_at: this.clock(),
+    };
+    const index = this.summaries.findIndex(
+      (s) => s.card_id === summaryData.card_id
+    );
+    if (index >= 0) {
+      this.summaries[index] = { ...summary, id: this.summaries[index].id };
+    } else {
+      this.summaries.push(summary);
+    }
+    return Promise.resolve();
+  }
+
+  getCardsWithoutSummary(): Promise<Card[]> {
+    return Promise.resolve(
+      this.cards
+        .filter(
+          (c) =>
+            !c.is_archived && !this.summaries.some((s) => s.card_id === c.id)
+        )
+        .map((c) => ({ ...c, credit_card_summaries: [] }))
+    );
+  }
+
+  getBankById(id: string): Promise<Bank | null> {
+    return Promise.resolve(this.defaultBanks.find((b) => b.id === id) ?? null);
+  }
+
+  getUserBankById(id: string): Promise<Bank | null> {
+    return Promise.resolve(this.banks.find((b) => b.id === id) ?? null);
+  }
+
+  private getUnpaidPayments(userId: string): Payment[] {
+    const payments: Payment[] = [];
+    for (const payment of this.payments) {
+      const card = this.cards.find((c) => c.id === payment.card_id);
+      if (payment.user_id === userId && !payment.is_paid && card) {
+        payments.push({ ...payment, cards: card });
+      }
+    }
+    return payments;
+  }
+
+  /**
+   * Mirrors the `get_latest_payments` database function: the latest payment
+   * per card by due date, paid or not.
+   */
+  private getLatestPayments(userId: string): LatestPayment[] {
+    const latest = new Map<string, LatestPayment>();
+    for (const { user_id, card_id, due_date, is_paid } of this.payments) {
+      if (user_id !== userId || !due_date) continue;
+      const current = latest.get(card_id);
+      if (!current || due_date > current.due_date) {
+        latest.set(card_id, { card_id, due_date, is_paid });
+      }
+    }
+    return [...latest.values()];
+  }
+
+  /**
+   * Mirrors the `get_latest_notification_logs` database function: the latest
+   * sent log per card and notification type.
+   */
+  private getLatestSentLogs(userId: string): NotificationLog[] {
+    const latest = new Map<string, NotificationLog>();
+    for (const log of this.notificationLogs) {
+      if (log.user_id !== userId || log.status !== "sent") continue;
+      const key = `${log.card_id}:${log.notification_type}`;
+      const current = latest.get(key);
+      if (!current || log.sent_at > current.sent_at) {
+        latest.set(key, log);
+      }
+    }
+    return [...latest.values()];
+  }
+}
@@ -7,13 +7,54 @@ import {
   Bank,
   Card,
   CreditCardSummary,
+  DeviceToken,
+  JobRun,
+  JobRunReport,
+  JobRunStatus,
+  LatestPayment,
+  NotificationDelivery,
   NotificationLog,
+  OutboxEntry,
   Payment,
   ProcessingStatus,
+  ReminderSchedule,
+  SchedulePage,
   Setting,
+  UserNotificationData,
+  WebhookEndpoint,
 } from "./models.ts";
+import { DataRepository } from "./DataRepository.ts";
+import { logger } from "./logger.ts";
+
+const JOB_RUN_COLUMNS =
+  "id, job_name, status, started_at, completed_at, window_start, cursor, report";
+
+/**
+ * A row selected together with the ID of the user it belongs to.
+ */
+type UserRow<T> = T & { user_id: string };
+
+/**
+ * Groups rows by the user they belong to.
+ * @param rows The rows, each with a `user_id`.
+ * @returns The rows of each user, keyed by user ID.
+ */
+function groupByUser<T extends { user_id: string }>(
+  rows: T[] | null
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows ?? []) {
+    const group = groups.get(row.user_id);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(row.user_id, [row]);
+    }
+  }
+  return groups;
+}
 
-export class SupabaseService {
+export class SupabaseService implements DataRepository {
   private client: SupabaseClient | undefined;
 
   /**
@@ -26,7 +67,7 @@ export class SupabaseService {
     supabaseKey: string | undefined
   ) {
     if (!supabaseUrl || !supabaseKey) {
-      console.error(
+      logger.error(
         "❌ Critical: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables are missing."
       );
       return;
@@ -34,7 +75,7 @@ export class SupabaseService {
     try {
       this.client = createClient(supabaseUrl, supabaseKey);
     } catch (error) {
-      console.error("❌ Supabase client creation failed:", error);
+      logger.error("❌ Supabase client creation failed", { error });
     }
   }
 
@@ -47,146 +88,517 @@ export class SupabaseService {
   }
 
   /**
-   * Fetches the user IDs of all users who have enabled notifications for a specific time.
-   * @param {string} time The time to check for notifications, in "HH:mm" format.
-   * @returns {Promise<string[]>} A promise that resolves to an array of user IDs.
+   * Fetches one page of the reminder times and timezones of users who have enabled
+   * notifications, ordered by user ID. Reminder times are wall-clock times in each
+   * user's own timezone.
+   * @param {SchedulePage} page The cursor, user ID range and size of the page.
+   * @returns {Promise<ReminderSchedule[]>} A promise that resolves to an array of reminder schedules.
    */
-  async getUsersToNotify(time: string): Promise<string[]> {
+  async getReminderSchedules(page: SchedulePage): Promise<ReminderSchedule[]> {
     if (!this.client) return [];
 
-    const { data, error } = await this.client
+    let query = this.client
       .from("settings")
-      .select("user_id")
+      .select(
+        "user_id, reminder_time, timezone, last_digest_date, quiet_hours_start, quiet_hours_end"
+      )
       .eq("notifications_enabled", true)
-      .eq("reminder_time", time);
+      .not("reminder_time", "is", null);
+    if (page.afterUserId) query = query.gt("user_id", page.afterUserId);
+    if (page.fromUserId) query = query.gte("user_id", page.fromUserId);
+    if (page.toUserId) query = query.lt("user_id", page.toUserId);
+
+    const { data, error } = await query
+      .order("user_id", { ascending: true })
+      .limit(page.limit);
     return error
-      ? (console.error("Error fetching users to notify:", error), [])
-      : (data ?? []).map((s) => (s as { user_id: string }).user_id);
+      ? (logger.error("Error fetching reminder schedules", { error }), [])
+      : (data as ReminderSchedule[]) ?? [];
   }
 
   /**
-   * Retrieves the preferred language for a given user.
-   * @param {string} userId The ID of the user.
-   * @returns {Promise<Setting | null>} A promise that resolves to the user's setting.
+   * Marks users' reminders as processed for a local date, skipping users another run already did.
+   * The conditional update makes each claim atomic, so overlapping or retried runs process
+   * each user at most once per local day.
+   * @param {string[]} userIds The IDs of users sharing the same local date.
+   * @param {string} localDate The users' local date, in "YYYY-MM-DD" format.
+   * @returns {Promise<string[]>} A promise that resolves to the IDs of the users this run claimed.
    */
-  async getUserSetting(userId: string): Promise<Setting | null> {
-    if (!this.client) return null;
+  async claimUserDigests(
+    userIds: string[],
+    localDate: string
+  ): Promise<string[]> {
+    if (!this.client || !userIds.length) return [];
 
     const { data, error } = await this.client
       .from("settings")
-      .select("language, currency, utilization_alert_threshold")
-      .eq("user_id", userId)
-      .eq("notifications_enabled", true)
-      .single();
+      .update({ last_digest_date: localDate })
+      .in("user_id", userIds)
+      .or(`last_digest_date.is.null,last_digest_date.lt.${localDate}`)
+      .select("user_id");
+
+    if (error) {
+      logger.error("Error claiming digests", {
+        users: userIds.length,
+        localDate,
+        error,
+      });
+      return [];
+    }
+    return (data as { user_id: string }[]).map((row) => row.user_id);
+  }
+
+  /**
+   * Releases users claimed for a local date, so a later run processes them again that day.
+   * @param {string[]} userIds The IDs of users sharing the same local date.
+   * @param {string} localDate The local date the users were claimed for, in "YYYY-MM-DD" format.
+   * @returns {Promise<void>} A promise that resolves when the claims are released.
+   */
+  async releaseUserDigests(
+    userIds: string[],
+    localDate: string
+  ): Promise<void> {
+    if (!this.client || !userIds.length) return;
+
+    const { error } = await this.client
+      .from("settings")
+      .update({ last_digest_date: null })
+      .in("user_id", userIds)
+      .eq("last_digest_date", localDate);
+
+    if (error) {
+      logger.error("Error releasing digests", {
+        users: userIds.length,
+        localDate,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Retrieves the most recent successfully completed run of a scheduled job.
+   * @param {string} jobName The name of the job.
+   * @returns {Promise<JobRun | null>} A promise that resolves to the latest completed run or null if none exists.
+   */
+  async getLastSuccessfulJobRun(jobName: string): Promise<JobRun | null> {
+    if (!this.client) return null;
+
+    const { data, error } = await this.client
+      .from("job_runs")
+      .select(JOB_RUN_COLUMNS)
+      .eq("job_name", jobName)
+      .eq("status", "completed")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
     if (error) {
-      console.error(`Error fetching language for user ${userId}:`, error);
+      logger.error("Error fetching last run of job", { jobName, error });
       return null;
     }
-    return data as Setting;
+    return data as JobRun | null;
   }
 
   /**
-   * Fetches all non-archived cards for a given user.
-   * @param {string} userId The ID of the user.
-   * @returns {Promise<Card[]>} A promise that resolves to an array of cards.
+   * Retrieves the latest unfinished run of a scheduled job, to resume it where it stopped.
+   * @param {string} jobName The name of the job.
+   * @param {Date} since Runs started before this time are too old to resume.
+   * @returns {Promise<JobRun | null>} A promise that resolves to the run or null if there is none.
    */
-  async getUserCards(userId: string): Promise<Card[]> {
-    if (!this.client) return [];
+  async getResumableJobRun(
+    jobName: string,
+    since: Date
+  ): Promise<JobRun | null> {
+    if (!this.client) return null;
 
     const { data, error } = await this.client
-      .from("cards")
-      .select(
-        "id, name, last_4_digits, billing_date, is_archived, is_auto_debit_enabled"
-      )
-      .eq("user_id", userId)
-      .eq("is_archived", false);
+      .from("job_runs")
+      .select(JOB_RUN_COLUMNS)
+      .eq("job_name", jobName)
+      .eq("status", "running")
+      .gte("started_at", since.toISOString())
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
     if (error) {
-      console.error(`Error fetching cards for user ${userId}:`, error);
-      return [];
+      logger.error("Error fetching resumable run of job", { jobName, error });
+      return null;
     }
-    return (data as Card[]) ?? [];
+    return data as JobRun | null;
   }
 
   /**
-   * Fetches all unpaid payments for a user, including the associated card details.
-   * @param {string} userId The ID of the user.
-   * @returns {Promise<Payment[]>} A promise that resolves to an array of unpaid payments.
+   * Records the start of a scheduled job run.
+   * @param {string} jobName The name of the job.
+   * @param {Date} startedAt The time the run started.
+   * @param {Date | null} windowStart The start of the window of reminder times the run covers, if any.
+   * @returns {Promise<string | null>} A promise that resolves to the run ID, or null on error.
    */
-  async getUserPayments(userId: string): Promise<Payment[]> {
-    if (!this.client) return [];
+  async startJobRun(
+    jobName: string,
+    startedAt: Date,
+    windowStart: Date | null
+  ): Promise<string | null> {
+    if (!this.client) return null;
 
-    const { data, error } = (await this.client
-      .from("payments")
-      .select(
-        "id, due_date, due_amount, paid_amount, statement_amount, is_paid, cards(id, name, last_4_digits, billing_date, is_archived, is_auto_debit_enabled)"
-      )
-      .eq("user_id", userId)
-      .eq("is_paid", false)) as {
-      data: Payment[] | null;
-      error: Error | null;
-    };
+    const { data, error } = await this.client
+      .from("job_runs")
+      .insert({
+        job_name: jobName,
+        status: "running",
+        started_at: startedAt.toISOString(),
+        window_start: windowStart?.toISOString() ?? null,
+      })
+      .select("id")
+      .single();
 
     if (error) {
-      console.error(`Error fetching payments for user ${userId}:`, error);
-      return [];
+      logger.error("Error starting run of job", { jobName, error });
+      return null;
+    }
+    return (data as { id: string }).id;
+  }
+
+  /**
+   * Saves how far a run got, so the next invocation can resume after this user.
+   * @param {string} runId The ID of the run.
+   * @param {string | null} cursor The ID of the last user the run got through.
+   * @param {JobRunReport} report The report of the run so far.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async saveJobRunProgress(
+    runId: string,
+    cursor: string | null,
+    report: JobRunReport
+  ): Promise<void> {
+    if (!this.client) return;
+
+    const { error } = await this.client
+      .from("job_runs")
+      .update({ cursor, report })
+      .eq("id", runId);
+
+    if (error) {
+      logger.error("Error saving progress of job run", { runId, error });
+    }
+  }
+
+  /**
+   * Records the outcome of a scheduled job run.
+   * @param {string} runId The ID of the run.
+   * @param {JobRunStatus} status The final status of the run.
+   * @param {JobRunReport} report The final report of the run.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async completeJobRun(
+    runId: string,
+    status: JobRunStatus,
+    report: JobRunReport
+  ): Promise<void> {
+    if (!this.client) return;
+
+    const { error } = await this.client
+      .from("job_runs")
+      .update({ status, report, completed_at: new Date().toISOString() })
+      .eq("id", runId);
+
+    if (error) {
+      logger.error("Error completing job run", { runId, error });
+    }
+  }
+
+  /**
+   * Takes a job's lock unless another invocation holds it. Locks are leases: one
+   * that isn't released, e.g. after a crash, expires after its time to live.
+   * @param {string} jobName The name of the job.
+   * @param {string} holder A unique ID of the invocation taking the lock.
+   * @param {number} ttlMs The time in milliseconds after which the lock expires.
+   * @returns {Promise<boolean>} A promise that resolves to true if the lock was taken.
+   */
+  async acquireJobLock(
+    jobName: string,
+    holder: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    if (!this.client) return false;
+
+    const { data, error } = await this.client.rpc("acquire_job_lock", {
+      lock_name: jobName,
+      lock_holder: holder,
+      ttl_seconds: Math.ceil(ttlMs / 1000),
+    });
+
+    if (error) {
+      logger.error("Error acquiring lock of job", { jobName, error });
+      return false;
+    }
+    return data === true;
+  }
+
+  /**
+   * Releases a job's lock, if the invocation still holds it.
+   * @param {string} jobName The name of the job.
+   * @param {string} holder The ID the invocation took the lock with.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async releaseJobLock(jobName: string, holder: string): Promise<void> {
+    if (!this.client) return;
+
+    const { error } = await this.client
+      .from("job_locks")
+      .delete()
+      .eq("job_name", jobName)
+      .eq("holder", holder);
+
+    if (error) {
+      logger.error("Error releasing lock of job", { jobName, error });
+    }
+  }
+
+  /**
+   * Loads the settings, cards, unpaid payments, device tokens, webhook endpoints and latest
+   * sent notification logs of many users in one round of set-based queries.
+   * Users without enabled notifications are left out. If any query fails, nothing is
+   * returned, so the users are not claimed and the next run picks them up again.
+   * @param {string[]} userIds The IDs of the users.
+   * @returns {Promise<Map<string, UserNotificationData>>} A promise that resolves to each user's data, keyed by user ID.
+   */
+  async getUserNotificationData(
+    userIds: string[]
+  ): Promise<Map<string, UserNotificationData>> {
+    const result = new Map<string, UserNotificationData>();
+    if (!this.client || !userIds.length) return result;
+
+    const [
+      settings,
+      cards,
+      payments,
+      latestPayments,
+      tokens,
+      emails,
+      endpoints,
+      lastLogs,
+    ] = await Promise.all([
+      this.client
+        .from("settings")
+        .select(
+          "user_id, language, currency, utilization_alert_threshold, timezone, notification_mode, notification_channels, cadence_overrides, quiet_hours_start, quiet_hours_end, snooze_until, dnd_allow_overdue"
+        )
+        .in("user_id", userIds)
+        .eq("notifications_enabled", true),
+      this.client
+        .from("cards")
+        .select(
+          "user_id, id, name, last_4_digits, billing_date, due_grace_period_days, is_archived, is_auto_debit_enabled, snooze_until, credit_limit, current_utilization, utilization_alert_tier"
+        )
+        .in("user_id", userIds)
+        .eq("is_archived", false),
+      this.client
+        .from("payments")
+        .select(
+          "user_id, id, due_date, due_amount, paid_amount, statement_amount, minimum_due_amount, is_paid, cards(id, name, last_4_digits, billing_date, is_archived, is_auto_debit_enabled, snooze_until)"
+        )
+        .in("user_id", userIds)
+        .eq("is_paid", false),
+      this.client.rpc("get_latest_payments", { user_ids: userIds }),
+      this.client
+        .from("device_tokens")
+        .select("user_id, device_token, platform")
+        .in("user_id", userIds),
+      this.client.rpc("get_notification_emails", { user_ids: userIds }),
+      this.client
+        .from("webhook_endpoints")
+        .select("user_id, id, url, format, secret, telegram_chat_id")
+        .in("user_id", userIds)
+        .eq("enabled", true),
+      this.client.rpc("get_latest_notification_logs", { user_ids: userIds }),
+    ]);
+
+    const error =
+      settings.error ??
+      cards.error ??
+      payments.error ??
+      latestPayments.error ??
+      tokens.error ??
+      emails.error ??
+      endpoints.error ??
+      lastLogs.error;
+    if (error) {
+      logger.error("Error fetching notification data", {
+        users: userIds.length,
+        error,
+      });
+      return result;
+    }
+
+    const cardsByUser = groupByUser(cards.data as UserRow<Card>[]);
+    const paymentsByUser = groupByUser(
+      payments.data as unknown as UserRow<Payment>[]
+    );
+    const latestPaymentsByUser = groupByUser(
+      latestPayments.data as UserRow<LatestPayment>[]
+    );
+    const tokensByUser = groupByUser(tokens.data as UserRow<DeviceToken>[]);
+    const emailsByUser = new Map(
+      (emails.data as UserRow<{ email: string }>[]).map((row) => [
+        row.user_id,
+        row.email,
+      ])
+    );
+    const endpointsByUser = groupByUser(
+      endpoints.data as UserRow<WebhookEndpoint>[]
+    );
+    const logsByUser = groupByUser(lastLogs.data as NotificationLog[]);
+    for (const { user_id, ...setting } of settings.data as UserRow<Setting>[]) {
+      result.set(user_id, {
+        setting,
+        cards: cardsByUser.get(user_id) ?? [],
+        payments: paymentsByUser.get(user_id) ?? [],
+        latestPayments: latestPaymentsByUser.get(user_id) ?? [],
+        tokens: tokensByUser.get(user_id) ?? [],
+        email: emailsByUser.get(user_id) ?? null,
+        webhookEndpoints: endpointsByUser.get(user_id) ?? [],
+        lastLogs: logsByUser.get(user_id) ?? [],
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Stores the highest utilization tier cards have been alerted for. Cards sharing a tier
+   * are updated together, so a page of users takes one update per tier.
+   * @param {Map<string, number>} tiers The alerted tier in percent per card ID, or 0 once a card drops below all tiers.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async updateCardUtilizationTiers(tiers: Map<string, number>): Promise<void> {
+    const client = this.client;
+    if (!client || !tiers.size) return;
+
+    const cardsByTier = new Map<number, string[]>();
+    for (const [cardId, tier] of tiers) {
+      cardsByTier.set(tier, [...(cardsByTier.get(tier) ?? []), cardId]);
     }
-    return data ?? [];
+    await Promise.all(
+      [...cardsByTier].map(async ([tier, cardIds]) => {
+        const { error } = await client
+          .from("cards")
+          .update({ utilization_alert_tier: tier })
+          .in("id", cardIds);
+
+        if (error) {
+          logger.error("Error updating utilization alert tiers", {
+            cards: cardIds.length,
+            tier,
+            error,
+          });
+        }
+      })
+    );
   }
 
   /**
    * Fetches all registered FCM device tokens for a given user.
    * @param {string} userId The ID of the user.
-   * @returns {Promise<string[]>} A promise that resolves to an array of device token strings.
+   * @returns {Promise<DeviceToken[]>} A promise that resolves to an array of device tokens with their platforms.
    */
-  async getDeviceTokens(userId: string): Promise<string[]> {
+  async getDeviceTokens(userId: string): Promise<DeviceToken[]> {
     if (!this.client) return [];
 
     const { data, error } = await this.client
       .from("device_tokens")
-      .select("device_token")
+      .select("device_token, platform")
       .eq("user_id", userId);
 
     if (error) {
-      console.error(`Error fetching device tokens for user ${userId}:`, error);
+      logger.error("Error fetching device tokens", { userId, error });
       return [];
     }
-    return data?.map((d) => d.device_token as string) ?? [];
+    return (data as DeviceToken[]) ?? [];
   }
 
   /**
-   * Retrieves the most recent notification log for a specific user, card, and notification type.
+   * Fetches the language a user's notifications are localized into.
    * @param {string} userId The ID of the user.
-   * @param {string} cardId The ID of the card.
-   * @param {NotificationLog["notification_type"]} notificationType The type of notification.
-   * @returns {Promise<NotificationLog | null>} A promise that resolves to the latest notification log or null if not found.
+   * @returns {Promise<string | null>} A promise that resolves to the language or null if the user has no settings.
    */
-  async getLastNotificationLog(
-    userId: string,
-    cardId: string,
-    notificationType: NotificationLog["notification_type"]
-  ): Promise<NotificationLog | null> {
+  async getUserLanguage(userId: string): Promise<string | null> {
     if (!this.client) return null;
 
     const { data, error } = await this.client
-      .from("notification_logs")
-      .select("*")
+      .from("settings")
+      .select("language")
       .eq("user_id", userId)
-      .eq("card_id", cardId)
-      .eq("notification_type", notificationType)
-      .order("sent_at", { ascending: false })
-      .limit(1)
       .maybeSingle();
 
-    if (error && error.code !== "PGRST116") {
-      // PGRST116 is 'No rows found', which is expected
-      console.error(
-        `Error fetching last notification log for user ${userId}, card ${cardId}, type ${notificationType}:`,
-        error
-      );
+    if (error) {
+      logger.error("Error fetching language", { userId, error });
+      return null;
+    }
+    return (data as { language: string } | null)?.language ?? null;
+  }
+
+  /**
+   * Resolves the user an access token was issued to. The token is verified by Supabase Auth,
+   * so expired, revoked or forged tokens resolve to no user.
+   * @param {string} accessToken The user's JWT, e.g. from an Authorization header.
+   * @returns {Promise<string | null>} A promise that resolves to the user's ID or null if the token is invalid.
+   */
+  async getUserIdByAccessToken(accessToken: string): Promise<string | null> {
+    if (!this.client) return null;
+
+    const { data, error } = await this.client.auth.getUser(accessToken);
+
+    if (error) {
+      logger.warn("Rejected access token", { error: error.message });
+      return null;
+    }
+    return data.user?.id ?? null;
+  }
+
+  /**
+   * Starts a user's test notification cooldown, unless it is still running.
+   * @param {string} userId The ID of the user.
+   * @param {number} cooldownMs Minimum time between two test notifications of the user.
+   * @returns {Promise<boolean>} A promise that resolves to true if a test notification may be sent.
+   */
+  async claimTestNotification(
+    userId: string,
+    cooldownMs: number
+  ): Promise<boolean> {
+    if (!this.client) return false;
+
+    const { data, error } = await this.client.rpc("claim_test_notification", {
+      target_user_id: userId,
+      cooldown_seconds: Math.ceil(cooldownMs / 1000),
+    });
+
+    if (error) {
+      logger.error("Error claiming test notification", { userId, error });
+      return false;
+    }
+    return data === true;
+  }
+
+  /**
+   * Fetches the enabled outbound webhook endpoints of a user.
+   * @param {string} userId The ID of the user.
+   * @returns {Promise<WebhookEndpoint[]>} A promise that resolves to an array of webhook endpoints.
+   */
+  async getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    if (!this.client) return [];
+
+    const { data, error } = await this.client
+      .from("webhook_endpoints")
+      .select("id, url, format, secret, telegram_chat_id")
+      .eq("user_id", userId)
+      .eq("enabled", true);
+
+    if (error) {
+      logger.error("Error fetching webhook endpoints", { userId, error });
+      return [];
     }
-    return data as NotificationLog | null;
+    return (data as WebhookEndpoint[]) ?? [];
   }
 
   /**
@@ -201,24 +613,180 @@ export class SupabaseService {
       .delete()
       .in("device_token", tokens);
     if (error) {
-      console.error("Error deleting stale tokens:", error);
+      logger.error("Error deleting stale tokens", { error });
     } else {
-      console.log(`Deleted ${tokens.length} stale device tokens.`);
+      logger.info("Deleted stale device tokens", { count: tokens.length });
+    }
+  }
+
+  /**
+   * Reserves dedupe keys before notifications are sent. A key can only be reserved once,
+   * so a notification whose key is taken has already gone out.
+   * Errors are thrown rather than read as keys already taken, so the notifications are
+   * retried later instead of being recorded as duplicates.
+   * @param {string[]} keys The dedupe keys of the notifications about to be sent.
+   * @returns {Promise<string[]>} A promise that resolves to the keys this call reserved.
+   * @throws {Error} If the keys couldn't be reserved.
+   */
+  async claimDedupeKeys(keys: string[]): Promise<string[]> {
+    if (!this.client || !keys.length) return [];
+
+    const { data, error } = await this.client
+      .from("notification_dedupe_keys")
+      .upsert(
+        keys.map((key) => ({ dedupe_key: key })),
+        { onConflict: "dedupe_key", ignoreDuplicates: true }
+      )
+      .select("dedupe_key");
+
+    if (error) {
+      throw new Error(
+        `Failed to reserve notification dedupe keys: ${error.message}`
+      );
+    }
+    return (data as { dedupe_key: string }[]).map((row) => row.dedupe_key);
+  }
+
+  /**
+   * Deletes dedupe keys reserved before a point in time. Keys only hold back notifications
+   * for the local date they name, so older ones are no longer needed.
+   * @param {Date} before The time keys reserved earlier are deleted from.
+   * @returns {Promise<number>} A promise that resolves to the number of keys deleted.
+   */
+  async pruneDedupeKeys(before: Date): Promise<number> {
+    if (!this.client) return 0;
+
+    const { count, error } = await this.client
+      .from("notification_dedupe_keys")
+      .delete({ count: "exact" })
+      .lt("created_at", before.toISOString());
+
+    if (error) {
+      logger.error("Error pruning notification dedupe keys", { error });
+      return 0;
     }
+    return count ?? 0;
   }
 
   /**
-   * Inserts a batch of notification logs into the database.
+   * Inserts a batch of notification logs into the database, followed by their delivery records.
    * @param {NotificationLog[]} logs An array of notification log objects to insert.
    * @returns {Promise<void>} A promise that resolves when the operation is complete.
    */
   async insertNotificationLog(logs: NotificationLog[]): Promise<void> {
     if (!this.client || !logs.length) return;
-    const { error } = await this.client.from("notification_logs").insert(logs);
+    const rows = logs.map(({ deliveries: _deliveries, ...log }) => log);
+    const { error } = await this.client.from("notification_logs").insert(rows);
+    if (error) {
+      logger.error("Error inserting notification logs", { error });
+      return;
+    }
+    logger.info("Inserted notification logs", { count: logs.length });
+    await this.insertNotificationDeliveries(
+      logs.flatMap((log) => log.deliveries ?? [])
+    );
+  }
+
+  /**
+   * Inserts a batch of delivery records for existing notification logs.
+   * @param {NotificationDelivery[]} deliveries An array of delivery records to insert.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async insertNotificationDeliveries(
+    deliveries: NotificationDelivery[]
+  ): Promise<void> {
+    if (!this.client || !deliveries.length) return;
+    const { error } = await this.client
+      .from("notification_deliveries")
+      .insert(deliveries);
+    if (error) {
+      logger.error("Error inserting notification deliveries", { error });
+    }
+  }
+
+  /**
+   * Marks notifications as sent once a retried delivery succeeds.
+   * @param {string[]} logIds The IDs of the notification logs.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async markNotificationLogsSent(logIds: string[]): Promise<void> {
+    if (!this.client || !logIds.length) return;
+    const { error } = await this.client
+      .from("notification_logs")
+      .update({ status: "sent", error_code: null })
+      .in("id", logIds);
+    if (error) {
+      logger.error("Error marking notification logs as sent", { error });
+    }
+  }
+
+  /**
+   * Queues failed deliveries in the notification outbox.
+   * @param {Omit<OutboxEntry, "id">[]} entries The deliveries to queue.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async enqueueOutboxEntries(
+    entries: Omit<OutboxEntry, "id">[]
+  ): Promise<void> {
+    if (!this.client || !entries.length) return;
+    const { error } = await this.client
+      .from("notification_outbox")
+      .insert(entries);
     if (error) {
-      console.error("Error inserting notification logs:", error);
+      logger.error("Error queueing outbox entries", { error });
     } else {
-      console.log(`Inserted ${logs.length} notification logs.`);
+      logger.info("Queued deliveries for retry", { count: entries.length });
+    }
+  }
+
+  /**
+   * Fetches pending outbox entries whose next retry time has passed, oldest first.
+   * @param {Date} now The current time.
+   * @param {number} limit The maximum number of entries to fetch.
+   * @returns {Promise<OutboxEntry[]>} A promise that resolves to an array of outbox entries.
+   */
+  async getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]> {
+    if (!this.client) return [];
+
+    const { data, error } = await this.client
+      .from("notification_outbox")
+      .select(
+        "id, user_id, channel, recipient, message, attempts, status, next_retry_at, last_error, local_date, timezone"
+      )
+      .eq("status", "pending")
+      .lte("next_retry_at", now.toISOString())
+      .order("next_retry_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error("Error fetching due outbox entries", { error });
+      return [];
+    }
+    return (data as OutboxEntry[]) ?? [];
+  }
+
+  /**
+   * Records the outcome of a retried delivery.
+   * @param {string} id The ID of the outbox entry.
+   * @param {Pick<OutboxEntry, "attempts" | "status" | "next_retry_at" | "last_error">} changes The new attempt count, status, retry time and error.
+   * @returns {Promise<void>} A promise that resolves when the operation is complete.
+   */
+  async updateOutboxEntry(
+    id: string,
+    changes: Pick<
+      OutboxEntry,
+      "attempts" | "status" | "next_retry_at" | "last_error"
+    >
+  ): Promise<void> {
+    if (!this.client) return;
+
+    const { error } = await this.client
+      .from("notification_outbox")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      logger.error("Error updating outbox entry", { entryId: id, error });
     }
   }
 
@@ -251,10 +819,10 @@ export class SupabaseService {
       .select("id");
 
     if (error) {
-      console.error(
-        `Error upserting summary for card ${summaryData.card_id}:`,
-        error
-      );
+      logger.error("Error upserting summary", {
+        cardId: summaryData.card_id,
+        error,
+      });
     }
   }
 
@@ -276,7 +844,7 @@ export class SupabaseService {
       .eq("is_archived", false);
 
     if (error) {
-      console.error("Error fetching cards without summary:", error);
+      logger.error("Error fetching cards without summary", { error });
       return [];
     }
 
@@ -290,7 +858,7 @@ export class SupabaseService {
    * @param id - The unique identifier of the bank to retrieve.
    * @returns A promise that resolves to the `Bank` object if found, or `null` if not found or on error.
    */
-  async getBankById(id: string) {
+  async getBankById(id: string): Promise<Bank | null> {
     if (!this.client) return null;
 
     const { data, error } = await this.client
@@ -300,7 +868,7 @@ export class SupabaseService {
       .single();
 
     if (error) {
-      console.error(`Error fetching bank by ID ${id}:`, error);
+      logger.error("Error fetching bank", { bankId: id, error });
       return null;
     }
 
@@ -313,7 +881,7 @@ export class SupabaseService {
    * @param id - The unique identifier of the bank to retrieve.
    * @returns A promise that resolves to the `Bank` object if found, or `null` if not found or on error.
    */
-  async getUserBankById(id: string) {
+  async getUserBankById(id: string): Promise<Bank | null> {
     if (!this.client) return null;
 
     const { data, error } = await this.client
@@ -323,7 +891,7 @@ export class SupabaseService {
       .single();
 
     if (error) {
-      console.error(`Error fetching bank by ID ${id}:`, error);
+      logger.error("Error fetching bank", { bankId: id, error });
       return null;
     }
 
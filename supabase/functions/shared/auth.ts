@@ -0,0 +1,168 @@
+import { logger, withLogContext } from "./logger.ts";
+
+/**
+ * Header the cron job sends the shared cron secret in.
+ */
+export const CRON_SECRET_HEADER = "x-cron-secret";
+
+/**
+ * ServiceCredentials are the secrets a scheduled function accepts. A credential
+ * that is left unset is never accepted.
+ */
+export interface ServiceCredentials {
+  // Shared secret sent by the cron job in the `x-cron-secret` header
+  cronSecret?: string;
+  // The service role key, sent as a bearer token
+  serviceRoleKey?: string;
+}
+
+/**
+ * AuthMethod type representing the credential a request was authorized with.
+ */
+export type AuthMethod = "cron_secret" | "service_role";
+
+/**
+ * AuthResult describes whether a request may run a scheduled function.
+ */
+export type AuthResult =
+  | { authorized: true; method: AuthMethod }
+  | { authorized: false; status: 401 | 403; error: string };
+
+/**
+ * Checks a request's credentials. Secrets are compared in constant time.
+ * A bearer token that is a JWT for another role (e.g. the anon key or a user's
+ * access token) is refused with a 403; missing or wrong credentials get a 401.
+ * @param req The incoming request.
+ * @param credentials The credentials to accept.
+ * @returns The result, with the method the request was authorized with.
+ */
+export async function authenticateRequest(
+  req: Request,
+  credentials: ServiceCredentials
+): Promise<AuthResult> {
+  const cronSecret = req.headers.get(CRON_SECRET_HEADER);
+  if (cronSecret !== null) {
+    return credentials.cronSecret &&
+      (await timingSafeEqual(cronSecret, credentials.cronSecret))
+      ? { authorized: true, method: "cron_secret" }
+      : { authorized: false, status: 401, error: "Invalid cron secret" };
+  }
+
+  const bearerToken = req.headers
+    .get("Authorization")
+    ?.match(/^Bearer (.+)$/i)?.[1];
+  if (!bearerToken) {
+    return { authorized: false, status: 401, error: "Missing credentials" };
+  }
+  if (
+    credentials.serviceRoleKey &&
+    (await timingSafeEqual(bearerToken, credentials.serviceRoleKey))
+  ) {
+    return { authorized: true, method: "service_role" };
+  }
+  // The claims are only read to tell callers apart; the token was already
+  // refused, so they don't need to be verified.
+  const role = getJwtRole(bearerToken);
+  return role && role !== "service_role"
+    ? { authorized: false, status: 403, error: `Role ${role} is not allowed` }
+    : { authorized: false, status: 401, error: "Invalid service role key" };
+}
+
+/**
+ * Wraps a scheduled function's handler so that only the cron job and service
+ * role callers can run it. Every call is audit-logged with its outcome, without
+ * the credentials themselves, and gets a request ID that is added to all of its
+ * log entries.
+ * @param functionName The name of the function, for the audit log.
+ * @param credentials The credentials to accept.
+ * @param handler The handler to protect.
+ * @returns A request handler for `Deno.serve`.
+ */
+export function withServiceAuth(
+  functionName: string,
+  credentials: ServiceCredentials,
+  handler: (req: Request) => Promise<Response>
+): (req: Request) => Promise<Response> {
+  return (req) =>
+    withLogContext(
+      { functionName, requestId: crypto.randomUUID() },
+      async () => {
+        const result = await authenticateRequest(req, credentials);
+        const caller = describeCaller(req);
+        if (!result.authorized) {
+          logger.warn("⛔ Rejected request", {
+            method: req.method,
+            ...caller,
+            status: result.status,
+            error: result.error,
+          });
+          return new Response(JSON.stringify({ error: result.error }), {
+            headers: {
+              "Content-Type": "application/json",
+              ...(result.status === 401 && { "WWW-Authenticate": "Bearer" }),
+            },
+            status: result.status,
+          });
+        }
+        logger.info("🔐 Authorized request", {
+          method: req.method,
+          ...caller,
+          authMethod: result.method,
+        });
+        return handler(req);
+      }
+    );
+}
+
+/**
+ * Compares two secrets in constant time. Both are hashed first, so neither the
+ * position of the first difference nor the secret's length leaks through timing.
+ * @param a The secret that was received.
+ * @param b The expected secret.
+ * @returns True if the secrets are equal.
+ */
+async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [hashA, hashB] = await Promise.all(
+    [a, b].map(
+      async (value) =>
+        new Uint8Array(
+          await crypto.subtle.digest("SHA-256", encoder.encode(value))
+        )
+    )
+  );
+  let difference = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    difference |= hashA[i] ^ hashB[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Reads the `role` claim of a JWT without verifying it.
+ * @param token The token.
+ * @returns The role, or null if the token isn't a JWT with a role.
+ */
+function getJwtRole(token: string): string | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(
+      atob(payload.replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    return typeof claims?.role === "string" ? claims.role : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeCaller(req: Request): {
+  callerIp: string;
+  userAgent: string | null;
+} {
+  return {
+    callerIp:
+      req.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown",
+    userAgent: req.headers.get("User-Agent"),
+  };
+}
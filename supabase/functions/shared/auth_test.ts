@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import {
+  authenticateRequest,
+  CRON_SECRET_HEADER,
+  ServiceCredentials,
+  withServiceAuth,
+} from "./auth.ts";
+
+const SERVICE_ROLE_KEY = jwt({ role: "service_role", iss: "supabase" });
+
+const CREDENTIALS: ServiceCredentials = {
+  cronSecret: "cron-secret-value",
+  serviceRoleKey: SERVICE_ROLE_KEY,
+};
+
+/**
+ * Builds an unsigned JWT with the given claims, like Supabase's anon key or a
+ * user's access token.
+ */
+function jwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/=+$/, "")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}.signature`;
+}
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request("http://localhost/", { headers });
+}
+
+function bearer(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+Deno.test("authorizes the cron secret", async () => {
+  assert.deepEqual(
+    await authenticateRequest(
+      request({ [CRON_SECRET_HEADER]: "cron-secret-value" }),
+      CREDENTIALS,
+    ),
+    { authorized: true, method: "cron_secret" },
+  );
+});
+
+Deno.test("authorizes the service role key as a bearer token", async () => {
+  assert.deepEqual(
+    await authenticateRequest(request(bearer(SERVICE_ROLE_KEY)), CREDENTIALS),
+    { authorized: true, method: "service_role" },
+  );
+});
+
+Deno.test("refuses missing or wrong credentials with a 401", async () => {
+  const refused = [
+    request(),
+    request({ [CRON_SECRET_HEADER]: "cron-secret-valuf" }),
+    // A wrong cron secret isn't rescued by a valid bearer token
+    request({ [CRON_SECRET_HEADER]: "wrong", ...bearer(SERVICE_ROLE_KEY) }),
+    request(bearer("not-the-service-role-key")),
+    request(bearer(jwt({ role: "service_role", iss: "forged" }))),
+    request({ Authorization: `Basic ${btoa("user:pass")}` }),
+  ];
+  for (const req of refused) {
+    const result = await authenticateRequest(req, CREDENTIALS);
+    assert.equal(result.authorized, false);
+    assert.equal(!result.authorized && result.status, 401);
+  }
+});
+
+Deno.test("refuses JWTs of other roles with a 403", async () => {
+  for (const role of ["anon", "authenticated"]) {
+    assert.deepEqual(
+      await authenticateRequest(request(bearer(jwt({ role }))), CREDENTIALS),
+      { authorized: false, status: 403, error: `Role ${role} is not allowed` },
+    );
+  }
+});
+
+Deno.test("never authorizes an empty secret when none is configured", async () => {
+  const unset: ServiceCredentials[] = [
+    {},
+    { cronSecret: "", serviceRoleKey: "" },
+  ];
+  for (const credentials of unset) {
+    for (
+      const req of [
+        request({ [CRON_SECRET_HEADER]: "" }),
+        request({ Authorization: "Bearer " }),
+        request(bearer("")),
+        request(),
+      ]
+    ) {
+      const result = await authenticateRequest(req, credentials);
+      assert.equal(result.authorized, false);
+    }
+  }
+});
+
+Deno.test("only runs the handler for authorized requests", async () => {
+  let calls = 0;
+  const handler = withServiceAuth("test-function", CREDENTIALS, () => {
+    calls++;
+    return Promise.resolve(new Response("ok"));
+  });
+
+  const refused = await handler(request(bearer("wrong")));
+  assert.equal(refused.status, 401);
+  assert.equal(refused.headers.get("WWW-Authenticate"), "Bearer");
+  assert.deepEqual(await refused.json(), {
+    error: "Invalid service role key",
+  });
+
+  const forbidden = await handler(request(bearer(jwt({ role: "anon" }))));
+  assert.equal(forbidden.status, 403);
+  assert.equal(forbidden.headers.get("WWW-Authenticate"), null);
+  await forbidden.body?.cancel();
+  assert.equal(calls, 0);
+
+  const allowed = await handler(
+    request({ [CRON_SECRET_HEADER]: "cron-secret-value" }),
+  );
+  assert.equal(await allowed.text(), "ok");
+  assert.equal(calls, 1);
+});
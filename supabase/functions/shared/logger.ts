@@ -0,0 +1,193 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+
+/**
+ * LogLevel type representing the severity of a log entry.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * LogThreshold is the least severe level a logger writes. "silent" writes
+ * nothing, e.g. while tests run.
+ */
+export type LogThreshold = LogLevel | "silent";
+
+/**
+ * LogSink writes a formatted log entry. The default writes it to the console.
+ */
+export type LogSink = (level: LogLevel, line: string) => void;
+
+/**
+ * LogFields are the structured fields of a log entry, e.g. counts, IDs or an
+ * `error`. They are redacted before the entry is written.
+ */
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<LogThreshold, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+const REDACTED = "[REDACTED]";
+
+// Fields whose values are secrets or personal data. Every string within them
+// is masked, e.g. all device tokens of a `tokens` array.
+const SECRET_FIELD =
+  /token|secret|password|authorization|api_?key|private_?key|credential|recipient|email/i;
+const CARD_DIGITS_FIELD = /last_?4|card_?number/i;
+const USER_ID_FIELD = /user_?id$/i;
+
+// Patterns masked in every string that is logged, including messages.
+const REDACTED_PATTERNS: [RegExp, string][] = [
+  [
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    "[REDACTED_KEY]",
+  ],
+  [/\beyJ[\w-]*\.[\w-]+\.[\w-]*/g, "[REDACTED_JWT]"],
+  [/\bsb_(?:secret|publishable)_[\w-]+/g, "[REDACTED_KEY]"],
+  [/\bAIza[\w-]{35}/g, "[REDACTED_KEY]"],
+  // Device tokens, e.g. FCM registration tokens, and other long opaque values
+  [/(?:[\w-]{20,}:)?[\w-]{64,}/g, "[REDACTED_TOKEN]"],
+  // Card numbers, with or without separators between the digits
+  [/\b\d(?:[ -]?\d){12,18}\b/g, "[REDACTED_CARD]"],
+];
+
+// Nested objects deeper than this are left out of the entry.
+const MAX_DEPTH = 6;
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Writes structured logs as one JSON object per line, with the correlation IDs
+ * of the current context (see `withLogContext`). Tokens, card digits and keys
+ * are redacted, and user ID fields (e.g. `userId`) are written as a reference
+ * (`userRef`): the first 12 hex digits of the ID's SHA-256 hash.
+ */
+export class Logger {
+  constructor(
+    private readonly minLevel: LogThreshold,
+    private readonly sink: LogSink = (level, line) => console[level](line)
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.minLevel]) return;
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      message: redactString(message),
+      ...(redact({ ...contextStorage.getStore(), ...fields }, 0) as LogFields),
+    };
+    this.sink(level, JSON.stringify(entry));
+  }
+}
+
+/**
+ * Parses a log level, e.g. the `LOG_LEVEL` env var.
+ * @param value The level name, or "silent".
+ * @returns The level, or "info" if the value is missing or unknown.
+ */
+export function parseLogLevel(value: string | undefined): LogThreshold {
+  const level = value?.trim().toLowerCase();
+  return level && Object.hasOwn(LOG_LEVELS, level)
+    ? (level as LogThreshold)
+    : "info";
+}
+
+/**
+ * The logger shared by all functions. Its level is set by the `LOG_LEVEL` env var.
+ */
+export const logger = new Logger(parseLogLevel(Deno.env.get("LOG_LEVEL")));
+
+/**
+ * Runs a task with correlation IDs that are added to every entry logged while
+ * it runs, including from async work it starts. Nested contexts add to the
+ * fields of the outer one.
+ * @param fields The correlation IDs, e.g. `{ runId }` or `{ userId }`.
+ * @param task The task to run.
+ * @returns The result of the task.
+ */
+export function withLogContext<T>(fields: LogFields, task: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, task);
+}
+
+function redact(value: unknown, depth: number, key = ""): unknown {
+  if (typeof value === "string") {
+    if (SECRET_FIELD.test(key)) return maskSecret(value);
+    if (CARD_DIGITS_FIELD.test(key)) return "****";
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, key));
+  }
+  const source =
+    value instanceof Error
+      ? {
+          name: value.name,
+          message: value.message,
+          code: (value as { code?: unknown }).code,
+          stack: value.stack,
+          cause: value.cause,
+        }
+      : value;
+  return Object.fromEntries(
+    Object.entries(source)
+      .filter(([, field]) => field !== undefined)
+      .map(([field, nested]) =>
+        USER_ID_FIELD.test(field) && typeof nested === "string"
+          ? [
+              field.replace(/_?id$/i, (id) => (id[0] === "_" ? "_ref" : "Ref")),
+              getUserRef(nested),
+            ]
+          : [
+              field,
+              // Fields nested in a secret are secret, too.
+              redact(nested, depth + 1, SECRET_FIELD.test(key) ? key : field),
+            ]
+      )
+  );
+}
+
+function redactString(value: string): string {
+  return REDACTED_PATTERNS.reduce(
+    (redacted, [pattern, replacement]) =>
+      redacted.replace(pattern, replacement),
+    value
+  );
+}
+
+// A user's reference is a short hash of their ID. It correlates the user's
+// entries across runs without writing the ID itself.
+function getUserRef(userId: string): string {
+  return createHash("sha256").update(userId).digest("hex").slice(0, 12);
+}
+
+// Keeps the last 4 characters of long values, so entries about the same token
+// can be told apart.
+function maskSecret(value: string): string {
+  return value.length >= 16 ? `${REDACTED}…${value.slice(-4)}` : REDACTED;
+}
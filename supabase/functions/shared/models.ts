@@ -5,13 +5,22 @@ export interface Card {
   id: string;
   name: string;
   last_4_digits: string;
+  // Any statement date of the card; its day of month is the monthly billing cycle day
   billing_date: string;
+  // Days between the billing date and the payment due date
+  due_grace_period_days?: number | null;
   is_archived: boolean;
   card_type: string;
   bank_id: string;
   credit_card_summaries: CreditCardSummary[] | null;
   // Added: whether auto debit is enabled for this card
   is_auto_debit_enabled?: boolean;
+  // Last date notifications for this card are snoozed through
+  snooze_until?: string | null;
+  credit_limit?: number | null;
+  current_utilization?: number | null;
+  // Highest utilization tier (in percent) already alerted for, 0 when below all tiers
+  utilization_alert_tier?: number | null;
 }
 
 /**
@@ -23,6 +32,7 @@ export interface Payment {
   due_amount: number;
   paid_amount: number;
   statement_amount: number;
+  minimum_due_amount: number | null;
   is_paid: boolean;
   cards: Card;
 }
@@ -32,6 +42,7 @@ export interface Payment {
  */
 export interface DeviceToken {
   device_token: string;
+  platform: string;
 }
 
 /**
@@ -41,23 +52,277 @@ export interface Setting {
   language: string;
   currency: string;
   utilization_alert_threshold: number;
+  // IANA timezone (e.g. "Asia/Kolkata") used for reminder times and date math
+  timezone: string | null;
+  notification_mode: NotificationMode | null;
+  // Per-user reminder cadence, replacing the default windows per notification type
+  cadence_overrides: CadencePolicy | null;
+  // Do-not-disturb: quiet hours in the user's timezone and a global snooze date
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  snooze_until: string | null;
+  // Lets overdue alerts through quiet hours and snoozes
+  dnd_allow_overdue: boolean | null;
+  // Channels reminders are delivered through, push only when unset
+  notification_channels: DeliveryChannelType[] | null;
 }
 
 /**
- * NotificationLog entity for logging sent notifications.
+ * NotificationMode type representing how a user's notifications are delivered:
+ * one push per card and type, or a single daily digest.
  */
-export type NotificationType = "billing" | "due" | "overdue" | "partial";
+export type NotificationMode = "individual" | "digest";
+
+/**
+ * DeliveryChannelType type representing the channels a notification can be delivered through.
+ */
+export type DeliveryChannelType = "push" | "email" | "webhook";
+
+/**
+ * WebhookFormat type representing the message shapes a webhook endpoint accepts:
+ * the signed JSON payload, or a chat tool's own incoming-message format.
+ */
+export type WebhookFormat = "generic" | "slack" | "discord" | "telegram";
+
+/**
+ * WebhookEndpoint entity representing a user's outbound webhook.
+ */
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  format: WebhookFormat;
+  // Shared secret the payload is signed with, if any
+  secret: string | null;
+  // Target chat for the Telegram Bot API
+  telegram_chat_id: string | null;
+}
+
+/**
+ * ReminderSchedule entity describing when a user wants to receive reminders.
+ */
+export interface ReminderSchedule {
+  user_id: string;
+  reminder_time: string;
+  timezone: string | null;
+  // Local date ("YYYY-MM-DD") the user's reminders were last processed on
+  last_digest_date: string | null;
+  // Reminders set within quiet hours are held until they end
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+/**
+ * SchedulePage selects one page of reminder schedules, ordered by user ID.
+ */
+export interface SchedulePage {
+  // Cursor: only users with a greater ID, null for the first page
+  afterUserId: string | null;
+  // Range of user IDs to page through, e.g. a shard. Lower bound inclusive,
+  // upper bound exclusive, null when unbounded.
+  fromUserId: string | null;
+  toUserId: string | null;
+  limit: number;
+}
+
+/**
+ * UserNotificationData bundles everything a notification run needs for one user.
+ * It is loaded for a whole batch of users at once.
+ */
+export interface UserNotificationData {
+  setting: Setting;
+  cards: Card[];
+  payments: Payment[];
+  // The latest payment per card, paid or not
+  latestPayments: LatestPayment[];
+  tokens: DeviceToken[];
+  // The account's email address, only loaded for users who get email reminders
+  email: string | null;
+  webhookEndpoints: WebhookEndpoint[];
+  // The latest sent log per card and notification type
+  lastLogs: NotificationLog[];
+}
+
+/**
+ * LatestPayment is the most recent payment logged for a card, by due date.
+ */
+export interface LatestPayment {
+  card_id: string;
+  due_date: string;
+  is_paid: boolean;
+}
+
+/**
+ * JobRun entity recording each execution of a scheduled function. A run may
+ * span several invocations: one that runs out of time saves its cursor and the
+ * next invocation resumes the run from there.
+ */
+export type JobRunStatus = "running" | "completed" | "failed";
+
+export interface JobRun {
+  id: string;
+  job_name: string;
+  status: JobRunStatus;
+  started_at: string;
+  completed_at: string | null;
+  // Start of the window of reminder times the run covers
+  window_start: string | null;
+  // ID of the last user the run got through, null until the first page is done
+  cursor: string | null;
+  // Structured report of the run so far, accumulated over its invocations
+  report: JobRunReport | null;
+}
+
+/**
+ * JobRunReport is the structured outcome of a run, e.g. counts per notification
+ * type and durations. Its shape is defined by each scheduled function.
+ */
+export type JobRunReport = object;
+
+/**
+ * NotificationLog entity for logging notification decisions: one row per
+ * notification, whether it was sent, failed or skipped.
+ */
+export type NotificationType =
+  | "billing"
+  | "due"
+  | "overdue"
+  | "partial"
+  | "utilization";
+
+export type NotificationStatus = "sent" | "failed" | "skipped";
+
+/**
+ * SkipReason type representing why a notification was held back.
+ */
+export type SkipReason =
+  | "cadence"
+  | "unchanged"
+  | "quiet_hours"
+  | "snoozed"
+  | "no_recipients"
+  | "duplicate";
 
 export type NotificationLog = {
+  id: string;
   user_id: string;
   card_id: string;
   notification_type: NotificationType;
   title: string;
   body: string;
   payload: string;
+  // "sent" once any delivery succeeds, "failed" when every delivery failed
+  status: NotificationStatus;
+  // First delivery error of a failed notification
+  error_code: string | null;
+  skip_reason: SkipReason | null;
+  // Amount paid on the payment when the notification was decided, if any
+  paid_amount: number | null;
+  // Time of the send or skip decision
   sent_at: string;
+  // Delivery attempts, stored as child rows in notification_deliveries
+  deliveries?: NotificationDelivery[];
 };
 
+/**
+ * NotificationDelivery entity recording an attempt to deliver a notification to one recipient.
+ */
+export type DeliveryStatus = "delivered" | "failed" | "token_removed";
+
+export interface NotificationDelivery {
+  log_id: string;
+  channel: DeliveryChannelType;
+  // Device token, email address or webhook endpoint ID
+  recipient: string;
+  // Device platform for push, endpoint format for webhooks
+  platform: string | null;
+  status: DeliveryStatus;
+  error_code: string | null;
+  attempted_at: string;
+}
+
+/**
+ * CadenceWindow describes how often a reminder repeats while its event is within a range of days.
+ * Offsets are days until the event: positive before it, 0 on the day, negative after it.
+ * An omitted bound leaves that side of the range open.
+ */
+export interface CadenceWindow {
+  fromDays?: number;
+  toDays?: number;
+  repeatEveryDays: number;
+}
+
+/**
+ * CadencePolicy maps notification types to their reminder windows, checked in order.
+ */
+export type CadencePolicy = Partial<Record<NotificationType, CadenceWindow[]>>;
+
+/**
+ * NotificationDetails carries the facts behind a notification for channels that
+ * deliver data rather than text. Fields that don't apply to a type are omitted.
+ */
+export interface NotificationDetails {
+  last4Digits: string;
+  currency: string;
+  remaining?: number;
+  minimumDue?: number;
+  paid?: number;
+  // Payment due date (or expected due date), in "YYYY-MM-DD" format
+  dueDate?: string;
+}
+
+/**
+ * PendingNotification represents a localized notification that is ready to be delivered.
+ */
+export interface PendingNotification {
+  // Also the ID of the notification's log entry
+  id: string;
+  cardId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  payload: string;
+  details: NotificationDetails;
+}
+
+/**
+ * DeliveryMessage represents a notification ready to be delivered to a user.
+ */
+export interface DeliveryMessage {
+  title: string;
+  body: string;
+  // The user's language, used by channels that wrap the message in templates
+  language: string;
+  // Deep-link route opened when the notification is tapped
+  payload: string;
+  // Messages with the same key replace each other on the device
+  collapseKey: string;
+  // The card notifications behind the message: one, or several for a digest
+  notifications: PendingNotification[];
+}
+
+/**
+ * OutboxEntry entity representing a failed delivery queued for retry.
+ */
+export type OutboxStatus = "pending" | "delivered" | "dead";
+
+export interface OutboxEntry {
+  id: string;
+  user_id: string;
+  channel: DeliveryChannelType;
+  // Device token, email address or webhook endpoint ID
+  recipient: string;
+  message: DeliveryMessage;
+  // Delivery attempts so far, including the original one
+  attempts: number;
+  status: OutboxStatus;
+  next_retry_at: string;
+  last_error: string | null;
+  // The user's local date when the delivery was queued, in "YYYY-MM-DD"
+  // format, and their timezone. The delivery expires once that date has passed.
+  local_date: string;
+  timezone: string;
+}
+
 // Interface for language strings
 export interface NotificationStrings {
   billing: (
@@ -70,6 +335,7 @@ export interface NotificationStrings {
     last4Digits: string,
     dueInDays: number,
     remaining: number,
+    minimumDue: number,
     currencyCode: string,
     isAutoDebit?: boolean
   ) => { title: string; body: string };
@@ -77,9 +343,28 @@ export interface NotificationStrings {
     cardName: string,
     last4Digits: string,
     remaining: number,
+    minimumDue: number,
     currencyCode: string,
     isAutoDebit?: boolean
   ) => { title: string; body: string };
+  expectedDue: (
+    cardName: string,
+    last4Digits: string,
+    dueDate: Date,
+    dueInDays: number
+  ) => { title: string; body: string };
+  graceEnding: (
+    cardName: string,
+    last4Digits: string,
+    daysLeft: number
+  ) => { title: string; body: string };
+  minimumPaid: (
+    cardName: string,
+    last4Digits: string,
+    dueInDays: number,
+    remaining: number,
+    currencyCode: string
+  ) => { title: string; body: string };
   partial: (
     cardName: string,
     last4Digits: string,
@@ -88,6 +373,23 @@ export interface NotificationStrings {
     currencyCode: string,
     isAutoDebit?: boolean
   ) => { title: string; body: string };
+  utilization: (
+    cardName: string,
+    last4Digits: string,
+    utilizationPercent: number,
+    tier: number
+  ) => { title: string; body: string };
+  digest: (
+    items: { title: string; body: string }[]
+  ) => { title: string; body: string };
+  // Sent on request to check that a device receives notifications
+  test: { title: string; body: string };
+  // Text around the message in email notifications
+  email: {
+    greeting: string;
+    openApp: string;
+    footer: string;
+  };
 }
 
 /**
@@ -0,0 +1,279 @@
+import assert from "node:assert/strict";
+import {
+  Bank,
+  Card,
+  CreditCardSummary,
+  DeviceToken,
+  JobRun,
+  NotificationDelivery,
+  NotificationLog,
+  OutboxEntry,
+  Payment,
+  ReminderSchedule,
+  Setting,
+  WebhookEndpoint,
+} from "./models.ts";
+
+const MIGRATIONS_DIR = new URL("../../migrations/", import.meta.url);
+
+// The columns each model is read from. Typing the lists as records keyed by the
+// model's fields makes the type-check fail when a field is added or removed
+// without updating them; embedded relations are left out.
+type Columns<T, Relations extends keyof T = never> = Record<
+  Exclude<keyof T, Relations>,
+  true
+>;
+
+const MODEL_TABLES: { model: string; table: string; fields: object }[] = [
+  {
+    model: "Card",
+    table: "cards",
+    fields: {
+      id: true,
+      name: true,
+      last_4_digits: true,
+      billing_date: true,
+      due_grace_period_days: true,
+      is_archived: true,
+      card_type: true,
+      bank_id: true,
+      is_auto_debit_enabled: true,
+      snooze_until: true,
+      credit_limit: true,
+      current_utilization: true,
+      utilization_alert_tier: true,
+    } satisfies Columns<Card, "credit_card_summaries">,
+  },
+  {
+    model: "Payment",
+    table: "payments",
+    fields: {
+      id: true,
+      due_date: true,
+      due_amount: true,
+      paid_amount: true,
+      statement_amount: true,
+      minimum_due_amount: true,
+      is_paid: true,
+    } satisfies Columns<Payment, "cards">,
+  },
+  {
+    model: "Setting",
+    table: "settings",
+    fields: {
+      language: true,
+      currency: true,
+      utilization_alert_threshold: true,
+      timezone: true,
+      notification_mode: true,
+      cadence_overrides: true,
+      quiet_hours_start: true,
+      quiet_hours_end: true,
+      snooze_until: true,
+      dnd_allow_overdue: true,
+      notification_channels: true,
+    } satisfies Columns<Setting>,
+  },
+  {
+    model: "ReminderSchedule",
+    table: "settings",
+    fields: {
+      user_id: true,
+      reminder_time: true,
+      timezone: true,
+      last_digest_date: true,
+      quiet_hours_start: true,
+      quiet_hours_end: true,
+    } satisfies Columns<ReminderSchedule>,
+  },
+  {
+    model: "DeviceToken",
+    table: "device_tokens",
+    fields: {
+      device_token: true,
+      platform: true,
+    } satisfies Columns<DeviceToken>,
+  },
+  {
+    model: "NotificationLog",
+    table: "notification_logs",
+    fields: {
+      id: true,
+      user_id: true,
+      card_id: true,
+      notification_type: true,
+      title: true,
+      body: true,
+      payload: true,
+      status: true,
+      error_code: true,
+      skip_reason: true,
+      paid_amount: true,
+      sent_at: true,
+    } satisfies Columns<NotificationLog, "deliveries">,
+  },
+  {
+    model: "NotificationDelivery",
+    table: "notification_deliveries",
+    fields: {
+      log_id: true,
+      channel: true,
+      recipient: true,
+      platform: true,
+      status: true,
+      error_code: true,
+      attempted_at: true,
+    } satisfies Columns<NotificationDelivery>,
+  },
+  {
+    model: "WebhookEndpoint",
+    table: "webhook_endpoints",
+    fields: {
+      id: true,
+      url: true,
+      format: true,
+      secret: true,
+      telegram_chat_id: true,
+    } satisfies Columns<WebhookEndpoint>,
+  },
+  {
+    model: "OutboxEntry",
+    table: "notification_outbox",
+    fields: {
+      id: true,
+      user_id: true,
+      channel: true,
+      recipient: true,
+      message: true,
+      attempts: true,
+      status: true,
+      next_retry_at: true,
+      last_error: true,
+      local_date: true,
+      timezone: true,
+    } satisfies Columns<OutboxEntry>,
+  },
+  {
+    model: "JobRun",
+    table: "job_runs",
+    fields: {
+      id: true,
+      job_name: true,
+      status: true,
+      started_at: true,
+      completed_at: true,
+      window_start: true,
+      cursor: true,
+      report: true,
+    } satisfies Columns<JobRun>,
+  },
+  {
+    model: "CreditCardSummary",
+    table: "credit_card_summaries",
+    fields: {
+      id: true,
+      card_id: true,
+      markdown_summary: true,
+      status: true,
+      error_message: true,
+      user_liked: true,
+      updated_at: true,
+    } satisfies Columns<CreditCardSummary>,
+  },
+  {
+    model: "Bank",
+    table: "banks",
+    fields: {
+      id: true,
+      name: true,
+      code: true,
+    } satisfies Columns<Bank>,
+  },
+];
+
+const TABLE_CONSTRAINTS = [
+  "constraint",
+  "primary",
+  "foreign",
+  "unique",
+  "check",
+];
+
+/**
+ * Splits a comma-separated list on the commas outside parentheses.
+ */
+function splitTopLevel(list: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === "(") depth++;
+    else if (list[i] === ")") depth--;
+    else if (list[i] === "," && depth === 0) {
+      items.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(list.slice(start));
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Replays the create table and add/drop column statements of the migrations,
+ * in filename order, into the columns of each table.
+ */
+async function readSchema(): Promise<Map<string, Set<string>>> {
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(MIGRATIONS_DIR)) {
+    if (entry.isFile && entry.name.endsWith(".sql")) files.push(entry.name);
+  }
+  files.sort();
+
+  const tables = new Map<string, Set<string>>();
+  for (const file of files) {
+    const sql = (await Deno.readTextFile(new URL(file, MIGRATIONS_DIR)))
+      .replace(/--[^\n]*/g, "")
+      .toLowerCase();
+
+    const createTable =
+      /create table (?:if not exists )?(?:public\.)?(\w+)\s*\(/g;
+    for (const match of sql.matchAll(createTable)) {
+      const bodyStart = match.index! + match[0].length;
+      let depth = 1;
+      let end = bodyStart;
+      while (depth > 0) {
+        if (sql[end] === "(") depth++;
+        else if (sql[end] === ")") depth--;
+        end++;
+      }
+      const columns = tables.get(match[1]) ?? new Set<string>();
+      for (const item of splitTopLevel(sql.slice(bodyStart, end - 1))) {
+        const name = item.split(/\s+/)[0];
+        if (!TABLE_CONSTRAINTS.includes(name)) columns.add(name);
+      }
+      tables.set(match[1], columns);
+    }
+
+    const alterTable = /alter table (?:if exists )?(?:public\.)?(\w+)([^;]*);/g;
+    for (const [, table, actions] of sql.matchAll(alterTable)) {
+      const columns = tables.get(table);
+      const changes = /\b(add|drop) column (?:if (?:not )?exists )?(\w+)/g;
+      for (const [, action, column] of actions.matchAll(changes)) {
+        assert.ok(columns, `${file} alters unknown table ${table}`);
+        if (action === "add") columns.add(column);
+        else columns.delete(column);
+      }
+    }
+  }
+  return tables;
+}
+
+Deno.test("model fields match the columns the migrations create", async () => {
+  const tables = await readSchema();
+  for (const { model, table, fields } of MODEL_TABLES) {
+    const columns = tables.get(table);
+    assert.ok(columns, `${model}: table ${table} isn't created`);
+    const missing = Object.keys(fields).filter((field) => !columns.has(field));
+    assert.deepEqual(missing, [], `${model}: columns missing from ${table}`);
+  }
+});
@@ -1,14 +1,11 @@
--- Drop existing tables and functions
-DROP TRIGGER IF EXISTS check_bank_id_trigger ON cards;
-DROP FUNCTION IF EXISTS check_bank_id_exists;
-DROP TABLE IF EXISTS payments;
-DROP TABLE IF EXISTS cards;
-DROP TABLE IF EXISTS banks;
-DROP TABLE IF EXISTS default_banks;
-DROP TABLE IF EXISTS settings;
+-- Initial schema: banks, cards, payments, settings, device tokens and
+-- notification logs. Every statement is idempotent, so this migration can also
+-- be applied to databases created from the former Tables.sql.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp" WITH SCHEMA extensions;
 
 -- Create default_banks table
-CREATE TABLE default_banks (
+CREATE TABLE IF NOT EXISTS default_banks (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   name TEXT NOT NULL,
   code TEXT NOT NULL,
@@ -23,7 +20,7 @@ CREATE TABLE default_banks (
 );
 
 -- Create banks table
-CREATE TABLE banks (
+CREATE TABLE IF NOT EXISTS banks (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL,
   name TEXT NOT NULL,
@@ -40,7 +37,7 @@ CREATE TABLE banks (
 );
 
 -- Create cards table
-CREATE TABLE cards (
+CREATE TABLE IF NOT EXISTS cards (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL,
   name TEXT NOT NULL,
@@ -60,7 +57,7 @@ CREATE TABLE cards (
   FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
 );
 
-CREATE TABLE credit_card_summaries (
+CREATE TABLE IF NOT EXISTS credit_card_summaries (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   card_id UUID NOT NULL,
   markdown_summary TEXT NOT NULL,
@@ -72,8 +69,10 @@ CREATE TABLE credit_card_summaries (
   FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
 );
 
-CREATE INDEX idx_credit_card_summaries_card_id ON credit_card_summaries (card_id);
+CREATE INDEX IF NOT EXISTS idx_credit_card_summaries_card_id ON credit_card_summaries (card_id);
 
+ALTER TABLE credit_card_summaries
+  DROP CONSTRAINT IF EXISTS uq_credit_card_summaries_card_id;
 ALTER TABLE credit_card_summaries
   ADD CONSTRAINT uq_credit_card_summaries_card_id
   UNIQUE (card_id);
@@ -81,7 +80,7 @@ ALTER TABLE credit_card_summaries
 ALTER TABLE credit_card_summaries ENABLE ROW LEVEL SECURITY;
 
 -- Create payments table
-CREATE TABLE payments (
+CREATE TABLE IF NOT EXISTS payments (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL,
   card_id UUID NOT NULL,
@@ -99,7 +98,7 @@ CREATE TABLE payments (
 );
 
 -- Create settings table
-CREATE TABLE settings (
+CREATE TABLE IF NOT EXISTS settings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL,
   language TEXT,
@@ -108,7 +107,7 @@ CREATE TABLE settings (
   notifications_enabled BOOLEAN DEFAULT TRUE,
   reminder_time TIME,
   sync_settings BOOLEAN DEFAULT TRUE,
-  utilization_alert_threshold INTEGER DEFAULT 30;
+  utilization_alert_threshold INTEGER DEFAULT 30,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
@@ -134,6 +133,7 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Create trigger for bank_id validation
+DROP TRIGGER IF EXISTS check_bank_id_trigger ON cards;
 CREATE TRIGGER check_bank_id_trigger
   BEFORE INSERT OR UPDATE ON cards
   FOR EACH ROW
@@ -147,12 +147,14 @@ ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
 
 -- RLS policies for default_banks
+DROP POLICY IF EXISTS "Allow read access to default banks" ON default_banks;
 CREATE POLICY "Allow read access to default banks"
   ON default_banks
   FOR SELECT
   TO authenticated
   USING (TRUE);
 
+DROP POLICY IF EXISTS "Deny modifications to default banks" ON default_banks;
 CREATE POLICY "Deny modifications to default banks"
   ON default_banks
   FOR ALL
@@ -160,24 +162,28 @@ CREATE POLICY "Deny modifications to default banks"
   USING (FALSE);
 
 -- RLS policies for banks
+DROP POLICY IF EXISTS "Allow read access to own banks" ON banks;
 CREATE POLICY "Allow read access to own banks"
   ON banks
   FOR SELECT
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow insert for own banks" ON banks;
 CREATE POLICY "Allow insert for own banks"
   ON banks
   FOR INSERT
   TO authenticated
   WITH CHECK (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow update for own banks" ON banks;
 CREATE POLICY "Allow update for own banks"
   ON banks
   FOR UPDATE
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow delete for own banks" ON banks;
 CREATE POLICY "Allow delete for own banks"
   ON banks
   FOR DELETE
@@ -185,24 +191,28 @@ CREATE POLICY "Allow delete for own banks"
   USING (user_id = (SELECT auth.uid()));
 
 -- RLS policies for cards
+DROP POLICY IF EXISTS "Allow read access to own cards" ON cards;
 CREATE POLICY "Allow read access to own cards"
   ON cards
   FOR SELECT
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow insert for own cards" ON cards;
 CREATE POLICY "Allow insert for own cards"
   ON cards
   FOR INSERT
   TO authenticated
   WITH CHECK (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow update for own cards" ON cards;
 CREATE POLICY "Allow update for own cards"
   ON cards
   FOR UPDATE
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow delete for own cards" ON cards;
 CREATE POLICY "Allow delete for own cards"
   ON cards
   FOR DELETE
@@ -210,24 +220,28 @@ CREATE POLICY "Allow delete for own cards"
   USING (user_id = (SELECT auth.uid()));
 
 -- RLS policies for payments
+DROP POLICY IF EXISTS "Allow read access to own payments" ON payments;
 CREATE POLICY "Allow read access to own payments"
   ON payments
   FOR SELECT
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow insert for own payments" ON payments;
 CREATE POLICY "Allow insert for own payments"
   ON payments
   FOR INSERT
   TO authenticated
   WITH CHECK (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow update for own payments" ON payments;
 CREATE POLICY "Allow update for own payments"
   ON payments
   FOR UPDATE
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow delete for own payments" ON payments;
 CREATE POLICY "Allow delete for own payments"
   ON payments
   FOR DELETE
@@ -235,24 +249,28 @@ CREATE POLICY "Allow delete for own payments"
   USING (user_id = (SELECT auth.uid()));
 
 -- RLS policies for settings
+DROP POLICY IF EXISTS "Allow read access to own settings" ON settings;
 CREATE POLICY "Allow read access to own settings"
   ON settings
   FOR SELECT
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow insert for own settings" ON settings;
 CREATE POLICY "Allow insert for own settings"
   ON settings
   FOR INSERT
   TO authenticated
   WITH CHECK (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow update for own settings" ON settings;
 CREATE POLICY "Allow update for own settings"
   ON settings
   FOR UPDATE
   TO authenticated
   USING (user_id = (SELECT auth.uid()));
 
+DROP POLICY IF EXISTS "Allow delete for own settings" ON settings;
 CREATE POLICY "Allow delete for own settings"
   ON settings
   FOR DELETE
@@ -260,6 +278,7 @@ CREATE POLICY "Allow delete for own settings"
   USING (user_id = (SELECT auth.uid()));
 
 
+DROP POLICY IF EXISTS "Allow read access to credit_card_summaries" ON credit_card_summaries;
 CREATE POLICY "Allow read access to credit_card_summaries"
   ON credit_card_summaries
   FOR SELECT
@@ -268,7 +287,8 @@ CREATE POLICY "Allow read access to credit_card_summaries"
 
 -- Insert default banks
 INSERT INTO default_banks (name, code, logo_path, support_number, website, color_hex, priority)
-VALUES 
+SELECT v.name, v.code, v.logo_path, v.support_number, v.website, v.color_hex, v.priority
+FROM (VALUES
 ('HDFC Bank', 'HDFC', 'assets/bank_icons/HDFC.svg', '1800 202 6161', 'https://www.hdfcbank.com', 'FF0066B2', 1),
 ('ICICI Bank', 'ICICI', 'assets/bank_icons/ICICI.svg', '1800 1080', 'https://www.icicibank.com', 'FFFF7E00', 2),
 ('SBI Card', 'SBI', 'assets/bank_icons/SBI.svg', '1800 1234', 'https://www.onlinesbi.com', 'FF1F5D36', 3),
@@ -289,7 +309,9 @@ VALUES
 ('Bank of India', 'BOI', 'assets/bank_icons/BOI.svg', '1800 220 229', 'https://www.bankofindia.co.in', 'FF0066B3', 18),
 ('Canara Bank', 'CANARA', 'assets/bank_icons/CANARA.svg', '1800 425 0018', 'https://canarabank.com', 'FFF7941D', 19),
 ('Federal Bank', 'FEDERAL', 'assets/bank_icons/FEDERAL.svg', '1800 425 1199', 'https://www.federalbank.co.in', 'FF0066B3', 21),
-('Bandhan Bank', 'BANDHAN', 'assets/bank_icons/BANDHAN.svg', '1800 258 8181', 'https://www.bandhanbank.com', 'FFE31937', 22);
+('Bandhan Bank', 'BANDHAN', 'assets/bank_icons/BANDHAN.svg', '1800 258 8181', 'https://www.bandhanbank.com', 'FFE31937', 22)
+) AS v (name, code, logo_path, support_number, website, color_hex, priority)
+WHERE NOT EXISTS (SELECT 1 FROM default_banks b WHERE b.code = v.code);
 
 
 -- Auth Tokens
@@ -304,11 +326,12 @@ create table if not exists public.device_tokens (
 );
 
 -- Optional: Index for faster lookup
-create index idx_device_tokens_user_id on public.device_tokens(user_id);
+create index if not exists idx_device_tokens_user_id on public.device_tokens(user_id);
 
 -- Enable RLS
 alter table public.device_tokens enable row level security;
 
+drop policy if exists "Allow insert for authenticated users" on public.device_tokens;
 create policy "Allow insert for authenticated users"
 on public.device_tokens
 for insert
@@ -316,6 +339,7 @@ with check (
   auth.uid() = user_id
 );
 
+drop policy if exists "Allow update if user owns the token" on public.device_tokens;
 create policy "Allow update if user owns the token"
 on public.device_tokens
 for update
@@ -323,6 +347,7 @@ using (
   auth.uid() = user_id
 );
 
+drop policy if exists "Allow select only own tokens" on public.device_tokens;
 create policy "Allow select only own tokens"
 on public.device_tokens
 for select
@@ -330,6 +355,7 @@ using (
   auth.uid() = user_id
 );
 
+drop policy if exists "Allow delete only own token" on public.device_tokens;
 create policy "Allow delete only own token"
 on public.device_tokens
 for delete
@@ -349,17 +375,19 @@ create table if not exists public.notification_logs (
 
 alter table public.notification_logs enable row level security;
 
--- Allow insert from service
-create index idx_notification_logs_user_id on public.notification_logs(user_id);
+-- Lookups by user
+create index if not exists idx_notification_logs_user_id on public.notification_logs(user_id);
 
 -- Allow insert from service
+drop policy if exists "Allow service inserts" on public.notification_logs;
 create policy "Allow service inserts"
   on public.notification_logs
   for insert
   with check (auth.role() = 'service_role');
 
 -- Allow users to select their own logs
+drop policy if exists "Allow user selects" on public.notification_logs;
 create policy "Allow user selects"
   on public.notification_logs
   for select
-  using (user_id = (select auth.uid()));
\ No newline at end of file
+  using (user_id = (select auth.uid()));
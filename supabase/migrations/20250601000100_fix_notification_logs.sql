@@ -0,0 +1,51 @@
+-- notification_logs was created without the notification_type column the
+-- reminder cadence filters on, and with a free-text card_id. Add the column,
+-- make card_id a UUID that references cards, and index the last-log lookup.
+
+alter table public.notification_logs
+  add column if not exists notification_type text;
+
+-- Inserts could not succeed without the column, so untyped rows can't be
+-- matched by any lookup
+delete from public.notification_logs where notification_type is null;
+
+alter table public.notification_logs
+  alter column notification_type set not null;
+
+alter table public.notification_logs
+  drop constraint if exists notification_logs_notification_type_check;
+alter table public.notification_logs
+  add constraint notification_logs_notification_type_check
+  check (notification_type in ('billing', 'due', 'overdue', 'partial', 'utilization'));
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'notification_logs'
+      and column_name = 'card_id'
+      and data_type = 'text'
+  ) then
+    -- Logs of deleted cards, or with malformed IDs, can't reference a card
+    delete from public.notification_logs l
+    where l.card_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      or not exists (select 1 from public.cards c where c.id::text = l.card_id);
+
+    alter table public.notification_logs
+      alter column card_id type uuid using card_id::uuid;
+  end if;
+end $$;
+
+alter table public.notification_logs
+  drop constraint if exists notification_logs_card_id_fkey;
+alter table public.notification_logs
+  add constraint notification_logs_card_id_fkey
+  foreign key (card_id) references public.cards(id) on delete cascade;
+
+-- Last log of a type for a card, see getLastNotificationLog. Also covers
+-- lookups by user, replacing the single-column index.
+create index if not exists idx_notification_logs_user_card_type_sent_at
+  on public.notification_logs(user_id, card_id, notification_type, sent_at desc);
+
+drop index if exists public.idx_notification_logs_user_id;
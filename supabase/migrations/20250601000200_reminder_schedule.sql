@@ -0,0 +1,29 @@
+-- Per-user reminder schedule, cadence and do-not-disturb settings, card-level
+-- alert state, and the job runs the scheduler catches up from.
+
+alter table public.settings
+  add column if not exists timezone text default 'UTC', -- IANA timezone, e.g. 'Asia/Kolkata'
+  add column if not exists last_digest_date date, -- Local date the user's reminders were last processed on
+  add column if not exists notification_mode text default 'individual', -- 'individual' or 'digest'
+  add column if not exists cadence_overrides jsonb, -- Per-user reminder cadence windows, keyed by notification type
+  add column if not exists quiet_hours_start time, -- Do-not-disturb start, in the user's timezone
+  add column if not exists quiet_hours_end time, -- Do-not-disturb end (exclusive); may wrap past midnight
+  add column if not exists snooze_until date, -- Snooze all notifications through this date
+  add column if not exists dnd_allow_overdue boolean default false; -- Let overdue alerts through quiet hours and snoozes
+
+alter table public.cards
+  add column if not exists utilization_alert_tier integer default 0, -- Highest utilization tier (%) already alerted
+  add column if not exists snooze_until date; -- Snooze notifications for this card through this date
+
+-- Scheduled function runs
+create table if not exists public.job_runs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  status text check (status in ('running', 'completed', 'failed')) not null default 'running',
+  started_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists idx_job_runs_job_name_started_at on public.job_runs(job_name, started_at desc);
+
+alter table public.job_runs enable row level security;
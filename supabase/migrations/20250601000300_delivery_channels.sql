@@ -0,0 +1,87 @@
+-- Email and webhook delivery, per-recipient delivery records, notification
+-- statuses and the retry outbox.
+
+alter table public.settings
+  add column if not exists notification_channels text[] default array['push']; -- Delivery channels: 'push', 'email' and/or 'webhook'
+
+alter table public.notification_logs
+  add column if not exists status text not null default 'sent',
+  add column if not exists error_code text, -- First delivery error when every delivery failed
+  add column if not exists skip_reason text; -- 'cadence', 'unchanged', 'quiet_hours', 'snoozed' or 'no_recipients'
+
+alter table public.notification_logs
+  drop constraint if exists notification_logs_status_check;
+alter table public.notification_logs
+  add constraint notification_logs_status_check
+  check (status in ('sent', 'failed', 'skipped'));
+
+-- One row per delivery attempt of a notification, e.g. per device
+create table if not exists public.notification_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  log_id uuid not null references public.notification_logs(id) on delete cascade,
+  channel text not null check (channel in ('push', 'email', 'webhook')),
+  recipient text not null, -- Device token, email address or webhook endpoint ID
+  platform text, -- Device platform for push, endpoint format for webhooks
+  status text check (status in ('delivered', 'failed', 'token_removed')) not null,
+  error_code text,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists idx_notification_deliveries_log_id on public.notification_deliveries(log_id);
+
+alter table public.notification_deliveries enable row level security;
+
+-- Allow users to select deliveries of their own logs
+drop policy if exists "Allow user selects" on public.notification_deliveries;
+create policy "Allow user selects"
+  on public.notification_deliveries
+  for select
+  using (
+    exists (
+      select 1 from public.notification_logs l
+      where l.id = log_id and l.user_id = (select auth.uid())
+    )
+  );
+
+-- Outbound webhooks for reminders, e.g. Slack, Discord or Telegram
+create table if not exists public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  url text not null,
+  format text check (format in ('generic', 'slack', 'discord', 'telegram')) not null default 'generic',
+  secret text, -- HMAC-SHA256 key for the X-Webhook-Signature header
+  telegram_chat_id text, -- Required for the 'telegram' format
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhook_endpoints_user_id on public.webhook_endpoints(user_id);
+
+alter table public.webhook_endpoints enable row level security;
+
+-- Allow users to manage their own endpoints
+drop policy if exists "Allow user access" on public.webhook_endpoints;
+create policy "Allow user access"
+  on public.webhook_endpoints
+  for all
+  using (user_id = (select auth.uid()))
+  with check (user_id = (select auth.uid()));
+
+-- Failed deliveries queued for retry
+create table if not exists public.notification_outbox (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  channel text not null check (channel in ('push', 'email', 'webhook')),
+  recipient text not null, -- Device token, email address or webhook endpoint ID
+  message jsonb not null,
+  attempts integer not null default 1,
+  status text check (status in ('pending', 'delivered', 'dead')) not null default 'pending',
+  next_retry_at timestamptz not null default now(),
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_notification_outbox_due on public.notification_outbox(next_retry_at) where status = 'pending';
+
+alter table public.notification_outbox enable row level security;
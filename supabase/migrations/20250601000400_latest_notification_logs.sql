@@ -0,0 +1,19 @@
+-- The latest sent log per card and notification type for a batch of users, so
+-- a notification run evaluates every user's reminder cadence in one query.
+-- Served by idx_notification_logs_user_card_type_sent_at.
+create or replace function public.get_latest_notification_logs(user_ids uuid[])
+returns setof public.notification_logs
+language sql
+stable
+set search_path = ''
+as $$
+  select distinct on (l.user_id, l.card_id, l.notification_type) l.*
+  from public.notification_logs l
+  where l.user_id = any(user_ids)
+    and l.status = 'sent'
+  order by l.user_id, l.card_id, l.notification_type, l.sent_at desc;
+$$;
+
+-- Only the scheduled functions, running with the service role, read across users
+revoke execute on function public.get_latest_notification_logs(uuid[]) from public, anon, authenticated;
+grant execute on function public.get_latest_notification_logs(uuid[]) to service_role;
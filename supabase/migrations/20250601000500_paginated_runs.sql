@@ -0,0 +1,12 @@
+-- Notification runs page through users by ID and may span several invocations:
+-- a run that runs out of time saves its cursor, and the next invocation resumes
+-- it with the same window.
+
+alter table public.job_runs
+  add column if not exists window_start timestamptz, -- Start of the window of reminder times the run covers
+  add column if not exists cursor uuid; -- Last user the run got through
+
+-- Pages of users with reminders, ordered by user ID
+create index if not exists idx_settings_reminder_user_id
+  on public.settings(user_id)
+  where notifications_enabled and reminder_time is not null;
@@ -0,0 +1,46 @@
+-- Idempotent notification runs: a lease lock per job, so overlapping
+-- invocations are rejected, and a dedupe key per (user, card, type, local date),
+-- reserved before a notification is sent.
+
+create table if not exists public.job_locks (
+  job_name text primary key,
+  holder uuid not null, -- The invocation holding the lock
+  locked_until timestamptz not null -- Expiry of a lock that isn't released, e.g. after a crash
+);
+
+alter table public.job_locks enable row level security;
+
+-- Takes a job's lock unless another holder's lock is still live. Returns
+-- whether the lock was taken.
+create or replace function public.acquire_job_lock(
+  lock_name text,
+  lock_holder uuid,
+  ttl_seconds integer
+)
+returns boolean
+language sql
+volatile
+set search_path = ''
+as $$
+  with acquired as (
+    insert into public.job_locks (job_name, holder, locked_until)
+    values (lock_name, lock_holder, now() + make_interval(secs => ttl_seconds))
+    on conflict (job_name) do update
+      set holder = excluded.holder, locked_until = excluded.locked_until
+      where public.job_locks.locked_until < now()
+    returning 1
+  )
+  select exists (select 1 from acquired);
+$$;
+
+revoke execute on function public.acquire_job_lock(text, uuid, integer) from public, anon, authenticated;
+grant execute on function public.acquire_job_lock(text, uuid, integer) to service_role;
+
+-- '<user_id>:<card_id>:<notification_type>:<local date>' of every notification
+-- that was about to be sent
+create table if not exists public.notification_dedupe_keys (
+  dedupe_key text primary key,
+  created_at timestamptz not null default now()
+);
+
+alter table public.notification_dedupe_keys enable row level security;
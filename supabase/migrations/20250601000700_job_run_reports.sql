@@ -0,0 +1,6 @@
+-- Structured run reports: each scheduled function records the outcome of its
+-- runs (counts, failures and durations) on job_runs, to chart reliability over
+-- time.
+
+alter table public.job_runs
+  add column if not exists report jsonb; -- Accumulated over the invocations of a run
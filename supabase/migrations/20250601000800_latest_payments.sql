@@ -0,0 +1,22 @@
+-- The latest payment per card for a batch of users, paid or not, so a
+-- notification run can tell whether a card's current statement was already
+-- logged before deriving an expected due date from its grace period.
+create index if not exists idx_payments_card_id_due_date
+  on public.payments(card_id, due_date desc);
+
+create or replace function public.get_latest_payments(user_ids uuid[])
+returns table (user_id uuid, card_id uuid, due_date date, is_paid boolean)
+language sql
+stable
+set search_path = ''
+as $$
+  select distinct on (p.card_id) p.user_id, p.card_id, p.due_date, p.is_paid
+  from public.payments p
+  where p.user_id = any(user_ids)
+    and p.due_date is not null
+  order by p.card_id, p.due_date desc;
+$$;
+
+-- Only the scheduled functions, running with the service role, read across users
+revoke execute on function public.get_latest_payments(uuid[]) from public, anon, authenticated;
+grant execute on function public.get_latest_payments(uuid[]) to service_role;
@@ -0,0 +1,21 @@
+-- The account email addresses of a batch of users who get reminders by email,
+-- so a notification run loads them with the rest of a page's data instead of
+-- calling the auth admin API per user. Runs as the owner to read auth.users.
+create or replace function public.get_notification_emails(user_ids uuid[])
+returns table (user_id uuid, email text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select u.id, u.email::text
+  from auth.users u
+  join public.settings s on s.user_id = u.id
+  where u.id = any(user_ids)
+    and 'email' = any(s.notification_channels)
+    and u.email is not null;
+$$;
+
+-- Only the scheduled functions, running with the service role, read across users
+revoke execute on function public.get_notification_emails(uuid[]) from public, anon, authenticated;
+grant execute on function public.get_notification_emails(uuid[]) to service_role;
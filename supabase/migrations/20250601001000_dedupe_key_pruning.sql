@@ -0,0 +1,4 @@
+-- Completed notification runs delete dedupe keys reserved more than a few days
+-- ago, see pruneDedupeKeys.
+create index if not exists idx_notification_dedupe_keys_created_at
+  on public.notification_dedupe_keys(created_at);
@@ -0,0 +1,51 @@
+-- Webhook endpoints are fetched from the server, so their URLs must be https
+-- and public: loopback, private, link-local and single-label hosts are
+-- rejected, and the slack, discord and telegram formats are pinned to their
+-- official hosts. WebhookService applies the same rules before posting.
+create or replace function public.is_allowed_webhook_url(url text, format text)
+returns boolean
+language sql
+immutable
+set search_path = ''
+as $$
+  with parsed as (
+    select rtrim(lower(substring(
+      url from '^[hH][tT][tT][pP][sS]://(?:[^/?#@]*@)?(\[[^]]*\]|[^/?#:]+)'
+    )), '.') as host
+  )
+  select coalesce(
+    case format
+      when 'slack' then host = 'hooks.slack.com'
+      when 'discord' then host in ('discord.com', 'discordapp.com')
+      when 'telegram' then host = 'api.telegram.org'
+      else case
+        -- IPv6 literals: unspecified, loopback, IPv4-mapped, unique local, link-local
+        when host like '[%' then host !~ '^\[(0|:|f[cd]|fe[89ab])'
+        -- Hosts ending in a numeric label are IPv4 addresses and must be
+        -- dotted quads outside the private, loopback and link-local ranges
+        when host ~ '(^|\.)(0x[0-9a-f]*|[0-9]+)$' then
+          host ~ '^((25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])\.){3}(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])$'
+          and host !~ '^(0|10|127)\.'
+          and host !~ '^169\.254\.'
+          and host !~ '^172\.(1[6-9]|2[0-9]|3[01])\.'
+          and host !~ '^192\.168\.'
+          and host !~ '^100\.(6[4-9]|[7-9][0-9]|1[01][0-9]|12[0-7])\.'
+        else host like '%.%'
+          and host !~ '\.(localhost|local|internal)$'
+      end
+    end,
+    false
+  )
+  from parsed;
+$$;
+
+-- Existing endpoints that break the rules are disabled until their URL is fixed
+update public.webhook_endpoints
+  set enabled = false
+  where enabled and not public.is_allowed_webhook_url(url, format);
+
+alter table public.webhook_endpoints
+  drop constraint if exists webhook_endpoints_url_check;
+alter table public.webhook_endpoints
+  add constraint webhook_endpoints_url_check
+  check (public.is_allowed_webhook_url(url, format)) not valid;
@@ -0,0 +1,36 @@
+-- Per-user cooldown of test notifications, kept apart from the scheduled jobs'
+-- locks: one row per user, removed along with the user.
+create table if not exists public.test_notification_cooldowns (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  available_at timestamptz not null -- When the user may request the next test notification
+);
+
+alter table public.test_notification_cooldowns enable row level security;
+
+-- Starts a user's cooldown unless it is still running. Returns whether a test
+-- notification may be sent.
+create or replace function public.claim_test_notification(
+  target_user_id uuid,
+  cooldown_seconds integer
+)
+returns boolean
+language sql
+volatile
+set search_path = ''
+as $$
+  with claimed as (
+    insert into public.test_notification_cooldowns (user_id, available_at)
+    values (target_user_id, now() + make_interval(secs => cooldown_seconds))
+    on conflict (user_id) do update
+      set available_at = excluded.available_at
+      where public.test_notification_cooldowns.available_at <= now()
+    returning 1
+  )
+  select exists (select 1 from claimed);
+$$;
+
+revoke execute on function public.claim_test_notification(uuid, integer) from public, anon, authenticated;
+grant execute on function public.claim_test_notification(uuid, integer) to service_role;
+
+-- Cooldowns used to be kept as never-released locks in job_locks
+delete from public.job_locks where job_name like 'send-test-notification:%';
@@ -0,0 +1,14 @@
+-- The user's local date and timezone when a delivery was queued. Deliveries
+-- still pending once that date has passed are given up, so a reminder isn't
+-- delivered a day or more late.
+alter table public.notification_outbox add column if not exists local_date date;
+alter table public.notification_outbox add column if not exists timezone text;
+
+-- Deliveries queued before are dated by their creation time in UTC
+update public.notification_outbox
+set local_date = (created_at at time zone 'utc')::date,
+    timezone = 'UTC'
+where local_date is null or timezone is null;
+
+alter table public.notification_outbox alter column local_date set not null;
+alter table public.notification_outbox alter column timezone set not null;
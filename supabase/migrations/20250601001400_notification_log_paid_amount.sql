@@ -0,0 +1,5 @@
+-- The amount paid on a card's payment when a notification was decided. Partial
+-- payment alerts are repeated once the paid amount changes, rather than
+-- whenever the alert's wording or language does. Logs written before keep a
+-- null amount.
+alter table public.notification_logs add column if not exists paid_amount double precision;